@@ -0,0 +1,404 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download, FileSpreadsheet, ImagePlus, ListPlus, Play, Search, Square, Trash2 } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  batchResultsToCsv,
+  batchResultsToJson,
+  parseBatchInput,
+  runBatchScan,
+  type BatchItem,
+  type BatchItemStatus
+} from '@/lib/batchScan';
+import { hasScanApiKeys } from '@/lib/apiKeys';
+import { noVerdictBadgeClasses, riskBadgeClasses } from '@/lib/providers';
+import { ACCEPTED_IMAGE_TYPES, validateQrImage } from '@/lib/qrDecoder';
+import { loadScanOptions } from '@/lib/scanOptions';
+import { saveScanResult } from '@/lib/securityScan';
+import { payloadTypeLabels } from '@shared/payload';
+import type { OverallRisk } from '@shared/types';
+
+interface BatchScannerProps {
+  // Opens one entry in the full single-scan report.
+  onOpen: (data: string) => void;
+}
+
+type SortKey = 'input' | 'status' | 'risk' | 'score' | 'flagged';
+
+const statusOrder: Record<BatchItemStatus, number> = {
+  error: 0,
+  waiting: 1,
+  scanning: 2,
+  decoding: 3,
+  queued: 4,
+  done: 5
+};
+
+const riskOrder: Record<OverallRisk, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
+
+const statusLabels: Record<BatchItemStatus, string> = {
+  queued: 'Queued',
+  decoding: 'Decoding',
+  scanning: 'Scanning',
+  waiting: 'Rate limited',
+  done: 'Done',
+  error: 'Error'
+};
+
+const downloadFile = (content: string, type: string, extension: string) => {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `QR-Shield-Batch-${timestamp}.${extension}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Triage mode for security teams: queue a list, CSV or folder of QR images,
+// scan them with limited concurrency and compare the verdicts in one table.
+export const BatchScanner: React.FC<BatchScannerProps> = ({ onOpen }) => {
+  const [listText, setListText] = useState('');
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_BATCH_CONCURRENCY);
+  const [isRunning, setIsRunning] = useState(false);
+  const [pausedUntil, setPausedUntil] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'risk', descending: false });
+  const abortRef = useRef<AbortController | null>(null);
+  const { user } = useAuth();
+
+  // Stop the queue if the user navigates away mid-batch.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // Tick while paused so the countdown stays current.
+  useEffect(() => {
+    if (!pausedUntil) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [pausedUntil]);
+
+  const addItems = (added: BatchItem[]) => {
+    const room = MAX_BATCH_SIZE - items.length;
+    if (added.length > room) {
+      toast({
+        title: "Batch Limit Reached",
+        description: `A batch holds up to ${MAX_BATCH_SIZE} entries - ${added.length - Math.max(room, 0)} were not added`,
+        variant: "destructive"
+      });
+    }
+    if (room > 0) setItems(prev => [...prev, ...added.slice(0, room)]);
+  };
+
+  const addEntries = (entries: string[]) => {
+    const known = new Set(items.map(item => item.input));
+    const fresh = entries.filter(entry => !known.has(entry));
+    if (fresh.length === 0) {
+      toast({ title: "Nothing to Add", description: "No new URLs or QR contents were found" });
+      return;
+    }
+    addItems(fresh.map(input => ({ id: crypto.randomUUID(), input, status: 'queued' })));
+  };
+
+  const handleAddList = () => {
+    addEntries(parseBatchInput(listText));
+    setListText('');
+  };
+
+  const handleCsvImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    addEntries(parseBatchInput(await file.text(), { csv: true }));
+  };
+
+  const handleImageImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+
+    const rejected = files.filter(file => validateQrImage(file));
+    if (rejected.length > 0) {
+      toast({
+        title: `${rejected.length} Image${rejected.length === 1 ? '' : 's'} Skipped`,
+        description: "Only PNG and JPG images up to 10 MB can be scanned",
+        variant: "destructive"
+      });
+    }
+    addItems(files
+      .filter(file => !validateQrImage(file))
+      .map(file => ({ id: crypto.randomUUID(), input: file.name, file, status: 'queued' })));
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const handleStart = async () => {
+    const pending = items.filter(item => item.status === 'queued' || item.status === 'error');
+    if (pending.length === 0) return;
+
+    const hasKeys = user ? await hasScanApiKeys(user.id).catch(() => false) : false;
+    if (!hasKeys) {
+      toast({
+        title: "Running Local Checks Only",
+        description: user
+          ? "Configure API keys in Settings to add threat intelligence lookups"
+          : "Sign in and add API keys in Settings to add threat intelligence lookups"
+      });
+    }
+
+    pending.forEach(item => updateItem(item.id, { status: 'queued', error: undefined, result: undefined }));
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    await runBatchScan(pending, {
+      scanOptions: loadScanOptions(),
+      concurrency,
+      signal: controller.signal,
+      onUpdate: updateItem,
+      onPause: (until) => {
+        setPausedUntil(until);
+        setNow(Date.now());
+      },
+      onScanned: async (_item, data, result) => {
+        if (user) await saveScanResult(user.id, data, result.checks, result);
+      }
+    });
+
+    abortRef.current = null;
+    setIsRunning(false);
+    if (!controller.signal.aborted) {
+      toast({
+        title: "Batch Scan Complete",
+        description: `${pending.length} entr${pending.length === 1 ? 'y' : 'ies'} processed. Sort the table to triage the riskiest first.`
+      });
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+    toast({ title: "Batch Stopped", description: "Scans already in flight will finish; the rest stay queued" });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+  };
+
+  const sortedItems = useMemo(() => {
+    const value = (item: BatchItem): string | number => {
+      switch (sort.key) {
+        case 'input': return item.input.toLowerCase();
+        case 'status': return statusOrder[item.status];
+        case 'risk': return item.result ? (item.result.verdict ? riskOrder[item.result.overallRisk] : 3) : 4;
+        case 'score': return item.result?.score ?? 101;
+        case 'flagged': return -(item.result?.flagged ?? -1);
+      }
+    };
+    const sorted = [...items].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      return left < right ? -1 : left > right ? 1 : 0;
+    });
+    return sort.descending ? sorted.reverse() : sorted;
+  }, [items, sort]);
+
+  const finished = items.filter(item => item.status === 'done' || item.status === 'error').length;
+  const highRisk = items.filter(item => item.result?.verdict && item.result.overallRisk === 'HIGH').length;
+  const pendingCount = items.filter(item => item.status === 'queued' || item.status === 'error').length;
+
+  const SortHeader = ({ sortKey, children }: { sortKey: SortKey; children: React.ReactNode }) => (
+    <TableHead>
+      <button type="button" onClick={() => toggleSort(sortKey)} className="inline-flex items-center gap-1 hover:text-foreground">
+        {children}
+        {sort.key !== sortKey
+          ? <ArrowUpDown className="w-3 h-3 opacity-50" />
+          : sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />}
+      </button>
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <Label htmlFor="batch-list" className="text-sm font-medium">URLs or QR contents, one per line</Label>
+        <Textarea
+          id="batch-list"
+          value={listText}
+          onChange={(e) => setListText(e.target.value)}
+          placeholder={'https://example.com/menu\nhttps://parking-pay.example/zone-12'}
+          rows={5}
+          className="font-mono text-sm"
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={handleAddList} disabled={!listText.trim() || isRunning} className="rounded-xl">
+            <ListPlus className="w-4 h-4 mr-2" />
+            Add to Queue
+          </Button>
+          <Button variant="outline" asChild disabled={isRunning} className="rounded-xl">
+            <label className="cursor-pointer">
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Import CSV
+              <input type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleCsvImport} disabled={isRunning} />
+            </label>
+          </Button>
+          <Button variant="outline" asChild disabled={isRunning} className="rounded-xl">
+            <label className="cursor-pointer">
+              <ImagePlus className="w-4 h-4 mr-2" />
+              Add QR Images
+              <input type="file" accept={ACCEPTED_IMAGE_TYPES.join(',')} multiple className="hidden" onChange={handleImageImport} disabled={isRunning} />
+            </label>
+          </Button>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          CSV files can name the column to use with a header such as <span className="font-mono">url</span> or <span className="font-mono">qr_data</span>. Up to {MAX_BATCH_SIZE} entries per batch.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Parallel scans</Label>
+          <Select value={String(concurrency)} onValueChange={(value) => setConcurrency(Number(value))} disabled={isRunning}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map(value => (
+                <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {isRunning ? (
+            <Button variant="destructive" onClick={handleStop} className="rounded-xl">
+              <Square className="w-4 h-4 mr-2" />
+              Stop
+            </Button>
+          ) : (
+            <Button
+              onClick={handleStart}
+              disabled={pendingCount === 0}
+              className="bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-semibold rounded-xl"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Scan {pendingCount > 0 ? pendingCount : ''} {pendingCount === 1 ? 'Entry' : 'Entries'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => downloadFile(batchResultsToCsv(sortedItems), 'text/csv', 'csv')} disabled={finished === 0} className="rounded-xl">
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="outline" onClick={() => downloadFile(batchResultsToJson(sortedItems), 'application/json', 'json')} disabled={finished === 0} className="rounded-xl">
+            <Download className="w-4 h-4 mr-2" />
+            JSON
+          </Button>
+          <Button variant="ghost" onClick={() => setItems([])} disabled={isRunning || items.length === 0} className="rounded-xl">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {pausedUntil && pausedUntil > now && (
+        <Alert className="bg-amber-50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-800">
+          <AlertDescription className="text-amber-700 dark:text-amber-300">
+            The scan service is rate limiting requests. Resuming in {Math.ceil((pausedUntil - now) / 1000)}s.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {items.length > 0 && (
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400">
+              <span>{finished} of {items.length} scanned</span>
+              {highRisk > 0 && <span className="font-semibold text-red-600 dark:text-red-400">{highRisk} high risk</span>}
+            </div>
+            <Progress value={(finished / items.length) * 100} className="h-2" />
+          </div>
+
+          <div className="rounded-2xl border border-gray-200 dark:border-gray-700">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <SortHeader sortKey="input">Entry</SortHeader>
+                  <SortHeader sortKey="status">Status</SortHeader>
+                  <SortHeader sortKey="risk">Risk</SortHeader>
+                  <SortHeader sortKey="score">Score</SortHeader>
+                  <SortHeader sortKey="flagged">Flagged</SortHeader>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sortedItems.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="max-w-xs">
+                      <p className="font-mono text-xs truncate" title={item.data ?? item.input}>{item.data ?? item.input}</p>
+                      {item.file && <p className="text-xs text-gray-500 truncate">{item.file.name}</p>}
+                      {item.payloadType && item.payloadType !== 'url' && (
+                        <p className="text-xs text-gray-500">{payloadTypeLabels[item.payloadType]}</p>
+                      )}
+                      {item.result?.finalUrl && (
+                        <p className="text-xs text-gray-500 truncate" title={item.result.finalUrl}>→ {item.result.finalUrl}</p>
+                      )}
+                      {item.note && <p className="text-xs text-red-600 dark:text-red-400">{item.note}</p>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={item.status === 'error' ? 'text-red-600 dark:text-red-400' : ''} title={item.error}>
+                        {statusLabels[item.status]}
+                      </span>
+                      {item.error && <p className="text-xs text-gray-500 max-w-[12rem] truncate" title={item.error}>{item.error}</p>}
+                    </TableCell>
+                    <TableCell>
+                      {item.result && (item.result.verdict ? (
+                        <Badge className={`${riskBadgeClasses[item.result.overallRisk]} border`}>{item.result.overallRisk}</Badge>
+                      ) : (
+                        <Badge className={`${noVerdictBadgeClasses} border`}>NO VERDICT</Badge>
+                      ))}
+                    </TableCell>
+                    <TableCell>{item.result?.score ?? ''}</TableCell>
+                    <TableCell>{item.result ? `${item.result.flagged} / ${item.result.checks.length}` : ''}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        {item.status === 'done' && item.data && (
+                          <Button variant="ghost" size="sm" onClick={() => onOpen(item.data ?? item.input)} title="Open the full report">
+                            <Search className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setItems(prev => prev.filter(entry => entry.id !== item.id))}
+                          disabled={isRunning}
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,481 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import { Building2, Check, Loader2, LogOut, Mail, Trash2, UserPlus, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import {
+  acceptOrganizationInvitation,
+  canManageOrganization,
+  canUseSharedKeys,
+  createOrganization,
+  deleteOrganization,
+  deleteOrganizationApiKey,
+  deleteOrganizationInvitation,
+  fetchOrganization,
+  fetchOrganizationApiKeyHints,
+  fetchOrganizationInvitations,
+  fetchOrganizationMembers,
+  fetchPendingInvitations,
+  inviteOrganizationMember,
+  organizationRoleDetails,
+  organizationRoles,
+  removeOrganizationMember,
+  saveOrganizationApiKey,
+  updateOrganizationMemberRole,
+  type Organization,
+  type OrganizationInvitation,
+  type OrganizationMember,
+  type OrganizationRole,
+  type PendingInvitation
+} from '@/lib/organizations';
+import { providerDefinitions } from '@shared/providers';
+import type { ApiKeyName } from '@shared/types';
+
+interface OrganizationSettingsProps {
+  userId: string;
+}
+
+// Errors raised by the organization functions carry a readable message.
+const getErrorMessage = (error: unknown) =>
+  (error as { message?: string } | null)?.message || 'Please try again.';
+
+const sharedKeyConfigs = providerDefinitions.flatMap(provider =>
+  provider.requiredKeys.map(key => ({ key, name: `${provider.name} API Key` }))
+);
+
+export const OrganizationSettings = ({ userId }: OrganizationSettingsProps) => {
+  // undefined while loading, null when the user has no organization
+  const [organization, setOrganization] = useState<Organization | null | undefined>(undefined);
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  // Sent by the organization, for its owners and admins
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  // Waiting for this user, while they have no organization
+  const [pendingInvitations, setPendingInvitations] = useState<PendingInvitation[]>([]);
+  const [keyHints, setKeyHints] = useState<Partial<Record<ApiKeyName, string>>>({});
+  const [keyInputs, setKeyInputs] = useState<Partial<Record<ApiKeyName, string>>>({});
+  const [newOrganizationName, setNewOrganizationName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<OrganizationRole>('analyst');
+  const [isBusy, setIsBusy] = useState(false);
+
+  const loadOrganization = useCallback(async () => {
+    const current = await fetchOrganization(userId);
+    setOrganization(current);
+    if (!current) {
+      setMembers([]);
+      setKeyHints({});
+      setInvitations([]);
+      setPendingInvitations(await fetchPendingInvitations());
+      return;
+    }
+
+    const [memberList, hints, sent] = await Promise.all([
+      fetchOrganizationMembers(current.id),
+      fetchOrganizationApiKeyHints(current.id),
+      canManageOrganization(current.role) ? fetchOrganizationInvitations(current.id) : []
+    ]);
+    setMembers(memberList);
+    setKeyHints(hints);
+    setInvitations(sent);
+    setPendingInvitations([]);
+  }, [userId]);
+
+  useEffect(() => {
+    loadOrganization().catch((error) => {
+      console.error('Failed to load organization:', error);
+      toast({
+        title: "Could Not Load Organization",
+        description: "Your organization could not be retrieved. Please try again.",
+        variant: "destructive"
+      });
+    });
+  }, [loadOrganization]);
+
+  // Runs one change, then reloads so the page matches what the database
+  // allowed. Role checks happen server-side; their messages are shown as is.
+  const runChange = async (change: () => Promise<void>, success: { title: string; description: string }) => {
+    setIsBusy(true);
+    try {
+      await change();
+      await loadOrganization();
+      toast(success);
+    } catch (error) {
+      console.error('Organization change failed:', error);
+      toast({
+        title: "Change Failed",
+        description: getErrorMessage(error),
+        variant: "destructive"
+      });
+    }
+    setIsBusy(false);
+  };
+
+  const handleCreate = () => runChange(
+    async () => {
+      await createOrganization(newOrganizationName);
+      setNewOrganizationName('');
+    },
+    { title: "Organization Created", description: "Invite members and add shared API keys below" }
+  );
+
+  const handleInvite = (organizationId: string) => runChange(
+    async () => {
+      await inviteOrganizationMember(organizationId, inviteEmail, inviteRole);
+      setInviteEmail('');
+    },
+    { title: "Invitation Sent", description: `${inviteEmail.trim()} joins as ${organizationRoleDetails[inviteRole].label.toLowerCase()} once they accept in their settings` }
+  );
+
+  const handleSaveSharedKey = (organizationId: string, key: ApiKeyName) => runChange(
+    async () => {
+      await saveOrganizationApiKey(organizationId, key, keyInputs[key] ?? '');
+      setKeyInputs(prev => ({ ...prev, [key]: '' }));
+    },
+    { title: "Shared Key Saved", description: "Analysts, admins and owners now scan with this key" }
+  );
+
+  if (organization === undefined) {
+    return (
+      <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+        <CardContent className="flex items-center gap-2 pt-6 text-sm text-gray-600 dark:text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading organization...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (organization === null) {
+    return (
+      <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            Organization
+          </CardTitle>
+          <CardDescription>
+            Share provider keys and scan history with your team. To join an existing
+            organization, ask one of its admins to invite your email; the invitation
+            appears here.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pendingInvitations.map(invitation => (
+            <div
+              key={invitation.id}
+              className="flex flex-col gap-2 rounded-lg border p-3 sm:flex-row sm:items-center sm:justify-between"
+            >
+              <div className="flex items-center gap-2 text-sm">
+                <Mail className="w-4 h-4 shrink-0" />
+                <span>
+                  Invited to <span className="font-medium">{invitation.organizationName}</span> as{' '}
+                  {organizationRoleDetails[invitation.role].label.toLowerCase()}
+                </span>
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  disabled={isBusy}
+                  onClick={() => runChange(
+                    () => acceptOrganizationInvitation(invitation.id),
+                    { title: "Invitation Accepted", description: `You joined ${invitation.organizationName}` }
+                  )}
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={isBusy}
+                  onClick={() => runChange(
+                    () => deleteOrganizationInvitation(invitation.id),
+                    { title: "Invitation Declined", description: `You did not join ${invitation.organizationName}` }
+                  )}
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Decline
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              placeholder="Organization name"
+              value={newOrganizationName}
+              onChange={(e) => setNewOrganizationName(e.target.value)}
+              maxLength={100}
+            />
+            <Button
+              onClick={handleCreate}
+              disabled={isBusy || !newOrganizationName.trim()}
+              className="shrink-0"
+            >
+              Create Organization
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const canManage = canManageOrganization(organization.role);
+  const isOwner = organization.role === 'owner';
+  // Admins may not touch owners or hand out the owner role.
+  const assignableRoles = organizationRoles.filter(role => isOwner || role !== 'owner');
+  const canEditMember = (member: OrganizationMember) => canManage && (isOwner || member.role !== 'owner');
+
+  return (
+    <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          {organization.name}
+          <Badge variant="secondary" className="ml-1">{organizationRoleDetails[organization.role].label}</Badge>
+        </CardTitle>
+        <CardDescription>{organizationRoleDetails[organization.role].description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Members */}
+        <div className="space-y-3">
+          <p className="text-sm font-medium">Members</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Email</TableHead>
+                <TableHead className="w-40">Role</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.map(member => (
+                <TableRow key={member.userId}>
+                  <TableCell className="text-sm">
+                    {member.email}
+                    {member.userId === userId && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </TableCell>
+                  <TableCell>
+                    {canEditMember(member) ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => runChange(
+                          () => updateOrganizationMemberRole(organization.id, member.userId, role as OrganizationRole),
+                          { title: "Role Updated", description: `${member.email} is now ${organizationRoleDetails[role as OrganizationRole].label.toLowerCase()}` }
+                        )}
+                        disabled={isBusy}
+                      >
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map(role => (
+                            <SelectItem key={role} value={role}>{organizationRoleDetails[role].label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <span className="text-sm">{organizationRoleDetails[member.role].label}</span>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {canEditMember(member) && member.userId !== userId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        disabled={isBusy}
+                        onClick={() => runChange(
+                          () => removeOrganizationMember(organization.id, member.userId),
+                          { title: "Member Removed", description: `${member.email} no longer has access` }
+                        )}
+                      >
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canManage && invitations.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs text-gray-600 dark:text-gray-400">Invited, not yet accepted</p>
+              {invitations.map(invitation => (
+                <div key={invitation.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    {invitation.email}
+                    <span className="ml-2 text-xs text-gray-500">{organizationRoleDetails[invitation.role].label}</span>
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={isBusy}
+                    onClick={() => runChange(
+                      () => deleteOrganizationInvitation(invitation.id),
+                      { title: "Invitation Withdrawn", description: `${invitation.email} can no longer join` }
+                    )}
+                  >
+                    <X className="w-4 h-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex flex-col gap-2 sm:flex-row">
+              <Input
+                type="email"
+                placeholder="Email address to invite"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+              />
+              <Select value={inviteRole} onValueChange={(role) => setInviteRole(role as OrganizationRole)}>
+                <SelectTrigger className="sm:w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {assignableRoles.map(role => (
+                    <SelectItem key={role} value={role}>{organizationRoleDetails[role].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => handleInvite(organization.id)}
+                disabled={isBusy || !inviteEmail.trim()}
+                className="shrink-0"
+              >
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Separator />
+
+        {/* Shared API keys */}
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <p className="text-sm font-medium">Shared API Keys</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400">
+              {canUseSharedKeys(organization.role)
+                ? 'Your scans use these keys wherever you have not saved a key of your own.'
+                : 'Viewers scan with their own keys only.'}
+            </p>
+          </div>
+          {sharedKeyConfigs.map(config => (
+            <div key={config.key} className="space-y-1">
+              <Label htmlFor={`shared-${config.key}`} className="text-sm">{config.name}</Label>
+              {canManage ? (
+                <div className="flex gap-2">
+                  <Input
+                    id={`shared-${config.key}`}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={keyHints[config.key]
+                      ? `Shared key ending in ${keyHints[config.key]} - enter a new key to replace it`
+                      : 'Not shared'}
+                    value={keyInputs[config.key] ?? ''}
+                    onChange={(e) => setKeyInputs(prev => ({ ...prev, [config.key]: e.target.value }))}
+                    className="font-mono text-sm"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleSaveSharedKey(organization.id, config.key)}
+                    disabled={isBusy || !keyInputs[config.key]?.trim()}
+                    className="shrink-0"
+                  >
+                    Save
+                  </Button>
+                  {keyHints[config.key] && (
+                    <Button
+                      variant="outline"
+                      onClick={() => runChange(
+                        () => deleteOrganizationApiKey(organization.id, config.key),
+                        { title: "Shared Key Removed", description: "Members fall back to their own keys for this provider" }
+                      )}
+                      disabled={isBusy}
+                      className="shrink-0"
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              ) : (
+                <p id={`shared-${config.key}`} className="text-sm text-gray-600 dark:text-gray-400">
+                  {keyHints[config.key] ? `Shared key ending in ${keyHints[config.key]}` : 'Not shared'}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            variant="outline"
+            disabled={isBusy}
+            onClick={() => runChange(
+              () => removeOrganizationMember(organization.id, userId),
+              { title: "Left Organization", description: `You are no longer a member of ${organization.name}` }
+            )}
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Leave
+          </Button>
+          {isOwner && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={isBusy}>
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Organization
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {organization.name}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All members lose access and the shared API keys are destroyed. Scans stay
+                    with the members who ran them.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={() => runChange(
+                      () => deleteOrganization(organization.id),
+                      { title: "Organization Deleted", description: `${organization.name} was deleted` }
+                    )}
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
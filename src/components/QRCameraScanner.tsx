@@ -5,6 +5,8 @@ import { Camera, X, ScanLine, AlertCircle, RefreshCw, Settings } from 'lucide-re
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { QrCodeSelection } from '@/components/QrCodeSelection';
+import { decodeQrImage, getDistinctCodes, type QrDecodeResult } from '@/lib/qrDecoder';
 
 interface QRCameraScannerProps {
   isOpen: boolean;
@@ -23,6 +25,55 @@ export const QRCameraScanner: React.FC<QRCameraScannerProps> = ({
   const [permissionError, setPermissionError] = useState<string>('');
   const [isRetrying, setIsRetrying] = useState(false);
   const [cameraStarted, setCameraStarted] = useState(false);
+  const [frameCodes, setFrameCodes] = useState<{ imageUrl: string; result: QrDecodeResult } | null>(null);
+  const checkingFrame = useRef(false);
+
+  const captureFrame = (video: HTMLVideoElement) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+    return canvas.toDataURL('image/jpeg', 0.85);
+  };
+
+  // qr-scanner stops at the first code it sees. Before accepting it, look at
+  // the whole frame for more codes, since a second sticker over a poster is a
+  // common scam.
+  const handleDetection = async (scanner: QrScanner, data: string) => {
+    if (checkingFrame.current) return;
+    checkingFrame.current = true;
+
+    try {
+      const video = videoRef.current;
+      if (video) {
+        const imageUrl = captureFrame(video);
+        const result = await decodeQrImage(video, { allowRemote: false });
+        if (getDistinctCodes(result.codes).length > 1) {
+          scanner.stop();
+          setFrameCodes({ imageUrl, result });
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn('Could not check the frame for more QR codes:', error);
+    } finally {
+      checkingFrame.current = false;
+    }
+
+    onScanResult(data);
+    onClose();
+  };
+
+  const handleSelectCode = (data: string) => {
+    console.log('QR Code selected from frame:', data);
+    onScanResult(data);
+    onClose();
+  };
+
+  const handleScanAgain = async () => {
+    setFrameCodes(null);
+    await qrScanner?.start();
+  };
 
   const startCamera = async () => {
     try {
@@ -30,6 +81,7 @@ export const QRCameraScanner: React.FC<QRCameraScannerProps> = ({
       setPermissionError('');
       setCameraStarted(false);
       setHasPermission(null);
+      setFrameCodes(null);
       
       console.log('Starting camera initialization...');
       
@@ -54,8 +106,7 @@ export const QRCameraScanner: React.FC<QRCameraScannerProps> = ({
         videoRef.current,
         (result) => {
           console.log('QR Code detected:', result.data);
-          onScanResult(result.data);
-          onClose();
+          handleDetection(scanner, result.data);
         },
         {
           highlightScanRegion: true,
@@ -125,6 +176,7 @@ export const QRCameraScanner: React.FC<QRCameraScannerProps> = ({
       setHasPermission(null);
       setPermissionError('');
       setCameraStarted(false);
+      setFrameCodes(null);
     };
   }, [isOpen]);
 
@@ -225,8 +277,18 @@ export const QRCameraScanner: React.FC<QRCameraScannerProps> = ({
             </div>
           )}
 
+          {frameCodes && (
+            <div className="space-y-4 max-h-[70vh] overflow-y-auto">
+              <QrCodeSelection imageUrl={frameCodes.imageUrl} result={frameCodes.result} onSelect={handleSelectCode} />
+              <Button variant="outline" onClick={handleScanAgain} className="w-full">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Scan Again
+              </Button>
+            </div>
+          )}
+
           {hasPermission === true && cameraStarted && (
-            <div className="relative">
+            <div className={`relative ${frameCodes ? 'hidden' : ''}`}>
               <video
                 ref={videoRef}
                 className="w-full rounded-lg bg-black"
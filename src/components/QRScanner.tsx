@@ -1,85 +1,194 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { QrCode, Camera, Link, Search } from 'lucide-react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { QrCode, Camera, Link, Search, X, Check, AlertTriangle, Loader2, FileX } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { BatchScanner } from '@/components/BatchScanner';
 import { QRCameraScanner } from '@/components/QRCameraScanner';
+import { QrCodeSelection } from '@/components/QrCodeSelection';
+import { ACCEPTED_IMAGE_TYPES, decodeQrImage, getDistinctCodes, validateQrImage, type QrDecodeResult } from '@/lib/qrDecoder';
 
 interface QRScannerProps {
   onScanResult: (data: string, source: 'camera' | 'upload' | 'manual') => void;
 }
 
+type UploadStatus = 'pending' | 'decoding' | 'decoded' | 'multiple' | 'failed' | 'rejected';
+
+interface UploadItem {
+  id: string;
+  file: File;
+  previewUrl: string;
+  status: UploadStatus;
+  error?: string;
+  result?: QrDecodeResult;
+}
+
 export const QRScanner: React.FC<QRScannerProps> = ({ onScanResult }) => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
   const [showCamera, setShowCamera] = useState(false);
   const [manualUrl, setManualUrl] = useState('');
+  const [isDecoding, setIsDecoding] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const uploadsRef = useRef(uploads);
+  uploadsRef.current = uploads;
 
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
+  // Release every preview URL when the scanner goes away.
+  useEffect(() => () => uploadsRef.current.forEach(upload => URL.revokeObjectURL(upload.previewUrl)), []);
+
+  const updateUpload = (id: string, changes: Partial<UploadItem>) => {
+    setUploads(prev => prev.map(upload => (upload.id === id ? { ...upload, ...changes } : upload)));
+  };
+
+  const addFiles = (files: File[]) => {
+    if (files.length === 0) return;
+
+    const added: UploadItem[] = files.map((file) => {
+      const error = validateQrImage(file);
+      return {
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: URL.createObjectURL(file),
+        status: error ? 'rejected' : 'pending',
+        ...(error && { error })
+      };
+    });
+    setUploads(prev => [...prev, ...added]);
+
+    const rejected = added.filter(upload => upload.status === 'rejected');
+    if (rejected.length > 0) {
+      toast({
+        title: rejected.length === 1 ? "File Not Accepted" : `${rejected.length} Files Not Accepted`,
+        description: rejected.length === 1
+          ? `${rejected[0].file.name}: ${rejected[0].error}`
+          : "Only PNG and JPG images up to 10 MB can be scanned",
+        variant: "destructive"
+      });
+    }
+    if (rejected.length < added.length) {
+      const accepted = added.length - rejected.length;
       toast({
-        title: "QR Code Image Selected",
+        title: accepted === 1 ? "QR Code Image Selected" : `${accepted} QR Code Images Selected`,
         description: "Ready to scan for security analysis"
       });
     }
   };
 
-  const handleImageScan = async () => {
-    if (!selectedFile) return;
+  const removeUpload = (id: string) => {
+    setUploads(prev => {
+      const upload = prev.find(item => item.id === id);
+      if (upload) URL.revokeObjectURL(upload.previewUrl);
+      return prev.filter(item => item.id !== id);
+    });
+  };
 
-    try {
-      // Create FormData for the goQR API
-      const formData = new FormData();
-      formData.append('file', selectedFile);
+  const clearUploads = () => {
+    uploads.forEach(upload => URL.revokeObjectURL(upload.previewUrl));
+    setUploads([]);
+  };
 
-      // Use goQR.me API to scan the QR code
-      const response = await fetch('https://api.qrserver.com/v1/read-qr-code/', {
-        method: 'POST',
-        body: formData
-      });
+  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(event.target.files ?? []));
+    // Allow picking the same file again after removing it
+    event.target.value = '';
+  };
 
-      if (!response.ok) {
-        throw new Error('Failed to scan QR code');
-      }
+  const handleDragOver = (event: React.DragEvent) => {
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(event.dataTransfer.files));
+  };
+
+  // Screenshots pasted anywhere on the page, unless the user is typing.
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target?.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const files = Array.from(event.clipboardData?.files ?? []).filter(file => file.type.startsWith('image/'));
+      if (files.length === 0) return;
+
+      event.preventDefault();
+      addFiles(files.map((file, index) =>
+        file.name && file.name !== 'image.png'
+          ? file
+          : new File([file], `pasted-image-${Date.now()}${index > 0 ? `-${index}` : ''}.${file.type === 'image/jpeg' ? 'jpg' : 'png'}`, { type: file.type })
+      ));
+    };
 
-      const result = await response.json();
-      
-      if (result && result.length > 0 && result[0].symbol && result[0].symbol.length > 0) {
-        const qrData = result[0].symbol[0].data;
-        const error = result[0].symbol[0].error;
-
-        if (error) {
-          throw new Error(error);
-        }
-
-        if (qrData) {
-          console.log('QR Code extracted from image:', qrData);
-          onScanResult(qrData, 'upload');
-          
-          toast({
-            title: "QR Code Scanned",
-            description: "Successfully extracted URL from image"
-          });
-        } else {
-          throw new Error('No QR code data found in image');
-        }
-      } else {
-        throw new Error('Invalid response format from QR scanning service');
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleImageScan = async () => {
+    const pending = uploads.filter(upload => upload.status === 'pending' || upload.status === 'failed');
+    if (pending.length === 0) return;
+
+    setIsDecoding(true);
+    let lastDecoded: string | null = null;
+
+    // One at a time: decoding is CPU-heavy and shares a single worker.
+    for (const upload of pending) {
+      updateUpload(upload.id, { status: 'decoding', error: undefined });
+      try {
+        const result = await decodeQrImage(upload.file);
+        console.log('QR Codes extracted from image:', upload.file.name, result.codes.map(code => code.data));
+        const multiple = getDistinctCodes(result.codes).length > 1;
+        updateUpload(upload.id, { status: multiple ? 'multiple' : 'decoded', result });
+        if (!multiple) lastDecoded = result.codes[0].data;
+      } catch (error) {
+        console.error('Failed to scan QR code from image:', upload.file.name, error);
+        updateUpload(upload.id, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Could not extract QR code from image. Please try a clearer image.'
+        });
       }
-    } catch (error) {
-      console.error('Failed to scan QR code from image:', error);
+    }
+
+    setIsDecoding(false);
+
+    // A single image with a single code goes straight to analysis, as before.
+    if (pending.length === 1 && lastDecoded) {
+      onScanResult(lastDecoded, 'upload');
       toast({
-        title: "Scan Failed",
-        description: error instanceof Error ? error.message : "Could not extract QR code from image. Please try a clearer image.",
-        variant: "destructive"
+        title: "QR Code Scanned",
+        description: "Decoded on this device - review the analysis below"
       });
     }
   };
 
+  const handleSelectCode = (data: string) => {
+    console.log('QR Code selected from image:', data);
+    onScanResult(data, 'upload');
+  };
+
+  const getUploadStatus = (upload: UploadItem) => {
+    switch (upload.status) {
+      case 'pending': return { icon: <QrCode className="w-4 h-4 text-gray-400" />, label: 'Ready to scan' };
+      case 'decoding': return { icon: <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />, label: 'Decoding...' };
+      case 'decoded': return {
+        icon: <Check className="w-4 h-4 text-green-500" />,
+        label: upload.result?.source === 'remote' ? 'Decoded by the remote fallback service' : 'Decoded on this device'
+      };
+      case 'multiple': return {
+        icon: <AlertTriangle className="w-4 h-4 text-red-500" />,
+        label: `${getDistinctCodes(upload.result?.codes ?? []).length} different QR codes found`
+      };
+      case 'failed': return { icon: <AlertTriangle className="w-4 h-4 text-amber-500" />, label: upload.error };
+      case 'rejected': return { icon: <FileX className="w-4 h-4 text-red-500" />, label: upload.error };
+    }
+  };
+
+  const scannableCount = uploads.filter(upload => upload.status === 'pending' || upload.status === 'failed').length;
+
   const handleCameraScan = (result: string) => {
     console.log('QR Code detected from camera:', result);
     onScanResult(result, 'camera');
@@ -114,98 +223,164 @@ export const QRScanner: React.FC<QRScannerProps> = ({ onScanResult }) => {
             Upload QR image, use camera, or manually enter a URL for security analysis
           </CardDescription>
         </CardHeader>
-        <CardContent className="space-y-8">
-          {/* Manual URL Input */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-4">
-              <Link className="w-5 h-5 text-blue-500" />
-              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Enter URL Manually</h3>
-            </div>
-            <form onSubmit={handleManualSubmit} className="flex gap-3">
-              <div className="flex-1">
-                <Input
-                  type="url"
-                  value={manualUrl}
-                  onChange={(e) => setManualUrl(e.target.value)}
-                  placeholder="https://example.com"
-                  className="h-12"
-                />
-              </div>
-              <Button
-                type="submit"
-                disabled={!manualUrl.trim()}
-                className="h-12 px-6 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white font-semibold rounded-2xl"
-              >
-                <Search className="w-4 h-4 mr-2" />
-                Analyze
-              </Button>
-            </form>
-          </div>
-
-          <div className="relative">
-            <div className="absolute inset-0 flex items-center">
-              <span className="w-full border-t border-gray-200 dark:border-gray-700" />
-            </div>
-            <div className="relative flex justify-center text-xs uppercase">
-              <span className="bg-white dark:bg-gray-900 px-2 text-gray-500 dark:text-gray-400">Or scan QR code</span>
-            </div>
-          </div>
-
-          {/* QR Code Upload */}
-          <div className="space-y-4">
-            <div className="flex items-center gap-2 mb-4">
-              <QrCode className="w-5 h-5 text-blue-500" />
-              <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Upload QR Code Image</h3>
-            </div>
-            <div className="flex flex-col items-center">
-              <div className="w-full max-w-m">
-                <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-blue-300 dark:border-blue-600 rounded-3xl cursor-pointer bg-blue-50/50 dark:bg-blue-950/20 hover:bg-blue-100/50 dark:hover:bg-blue-950/30 transition-all duration-200">
-                  <div className="flex flex-col items-center justify-center pt-5 pb-6">
-                    <QrCode className="w-10 h-10 mb-3 text-blue-500" />
-                    <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">
-                      <span className="font-semibold">Click to upload</span> or drag and drop
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">PNG, JPG, JPEG (MAX. 10MB)</p>
+        <CardContent>
+          <Tabs defaultValue="single" className="w-full">
+            <TabsList className="grid w-full grid-cols-2 mb-8">
+              <TabsTrigger value="single">Single Scan</TabsTrigger>
+              <TabsTrigger value="batch">Batch Scan</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="single" className="space-y-8">
+              {/* Manual URL Input */}
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 mb-4">
+                  <Link className="w-5 h-5 text-blue-500" />
+                  <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Enter URL Manually</h3>
+                </div>
+                <form onSubmit={handleManualSubmit} className="flex gap-3">
+                  <div className="flex-1">
+                    <Input
+                      type="url"
+                      value={manualUrl}
+                      onChange={(e) => setManualUrl(e.target.value)}
+                      placeholder="https://example.com"
+                      className="h-12"
+                    />
                   </div>
-                  <input
-                    type="file"
-                    className="hidden"
-                    accept="image/*"
-                    onChange={handleFileUpload}
-                  />
-                </label>
+                  <Button
+                    type="submit"
+                    disabled={!manualUrl.trim()}
+                    className="h-12 px-6 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-600 hover:to-emerald-700 text-white font-semibold rounded-2xl"
+                  >
+                    <Search className="w-4 h-4 mr-2" />
+                    Analyze
+                  </Button>
+                </form>
               </div>
-              
-              {selectedFile && (
-                <div className="mt-4 p-4 bg-blue-50 dark:bg-blue-950/30 rounded-2xl border border-blue-200 dark:border-blue-800 w-full max-w-md">
-                  <p className="text-sm font-medium text-blue-800 dark:text-blue-300">Selected File:</p>
-                  <p className="text-sm text-blue-600 dark:text-blue-400">{selectedFile.name}</p>
-                  <p className="text-xs text-blue-500 dark:text-blue-400 mt-1">
-                    {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                  </p>
+
+              <div className="relative">
+                <div className="absolute inset-0 flex items-center">
+                  <span className="w-full border-t border-gray-200 dark:border-gray-700" />
+                </div>
+                <div className="relative flex justify-center text-xs uppercase">
+                  <span className="bg-white dark:bg-gray-900 px-2 text-gray-500 dark:text-gray-400">Or scan QR code</span>
+                </div>
+              </div>
+
+              {/* QR Code Upload */}
+              <div className="space-y-4">
+                <div className="flex items-center gap-2 mb-4">
+                  <QrCode className="w-5 h-5 text-blue-500" />
+                  <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">Upload QR Code Image</h3>
                 </div>
-              )}
-            </div>
-
-            <div className="flex justify-center gap-4">
-              <Button
-                onClick={handleImageScan}
-                disabled={!selectedFile}
-                className="px-8 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
-              >
-                Scan Image
-              </Button>
-              
-              <Button
-                onClick={() => setShowCamera(true)}
-                variant="outline"
-                className="px-8 py-3 border-2 border-gray-300 dark:border-gray-600 hover:border-blue-500 dark:hover:border-blue-400 rounded-2xl font-semibold transition-all duration-200"
-              >
-                <Camera className="w-4 h-4 mr-2" />
-                Use Camera
-              </Button>
-            </div>
-          </div>
+                <div className="flex flex-col items-center">
+                  <div className="w-full max-w-m">
+                    <label
+                      onDragOver={handleDragOver}
+                      onDragEnter={handleDragOver}
+                      onDragLeave={() => setIsDragging(false)}
+                      onDrop={handleDrop}
+                      className={`flex flex-col items-center justify-center w-full h-40 border-2 border-dashed rounded-3xl cursor-pointer transition-all duration-200 ${
+                        isDragging
+                          ? 'border-blue-500 bg-blue-100/70 dark:bg-blue-950/40'
+                          : 'border-blue-300 dark:border-blue-600 bg-blue-50/50 dark:bg-blue-950/20 hover:bg-blue-100/50 dark:hover:bg-blue-950/30'
+                      }`}
+                    >
+                      <div className="flex flex-col items-center justify-center pt-5 pb-6">
+                        <QrCode className="w-10 h-10 mb-3 text-blue-500" />
+                        <p className="mb-2 text-sm text-gray-600 dark:text-gray-300">
+                          <span className="font-semibold">Click to upload</span>, drag and drop or paste
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">PNG, JPG, JPEG (MAX. 10MB) - several files at once</p>
+                      </div>
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept={ACCEPTED_IMAGE_TYPES.join(',')}
+                        multiple
+                        onChange={handleFileUpload}
+                      />
+                    </label>
+                  </div>
+
+                  {uploads.length > 0 && (
+                    <div className="mt-4 w-full space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-sm font-medium">Selected Files ({uploads.length})</Label>
+                        <Button variant="ghost" size="sm" onClick={clearUploads} disabled={isDecoding} className="text-xs">
+                          Clear all
+                        </Button>
+                      </div>
+                      {uploads.map((upload) => {
+                        const status = getUploadStatus(upload);
+                        return (
+                          <div
+                            key={upload.id}
+                            className="p-3 bg-blue-50 dark:bg-blue-950/30 rounded-2xl border border-blue-200 dark:border-blue-800 space-y-3"
+                          >
+                            <div className="flex items-center gap-3">
+                              <img src={upload.previewUrl} alt="" className="w-12 h-12 rounded-lg object-cover bg-white shrink-0" />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium text-blue-800 dark:text-blue-300 truncate">{upload.file.name}</p>
+                                <p className="text-xs text-blue-500 dark:text-blue-400">
+                                  {(upload.file.size / 1024 / 1024).toFixed(2)} MB
+                                </p>
+                                <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1 mt-1">
+                                  {status.icon}
+                                  <span className="truncate">{status.label}</span>
+                                </p>
+                              </div>
+                              {upload.status === 'decoded' && upload.result && (
+                                <Button size="sm" variant="outline" onClick={() => handleSelectCode(upload.result.codes[0].data)}>
+                                  <Search className="w-4 h-4 mr-1" />
+                                  Analyze
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeUpload(upload.id)}
+                                disabled={upload.status === 'decoding'}
+                                className="h-8 w-8 shrink-0"
+                              >
+                                <X className="w-4 h-4" />
+                              </Button>
+                            </div>
+                            {upload.status === 'multiple' && upload.result && (
+                              <QrCodeSelection imageUrl={upload.previewUrl} result={upload.result} onSelect={handleSelectCode} />
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex justify-center gap-4">
+                  <Button
+                    onClick={handleImageScan}
+                    disabled={scannableCount === 0 || isDecoding}
+                    className="px-8 py-3 bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 text-white font-semibold rounded-2xl shadow-lg hover:shadow-xl transition-all duration-200 disabled:opacity-50"
+                  >
+                    {isDecoding ? 'Decoding...' : scannableCount > 1 ? `Scan ${scannableCount} Images` : 'Scan Image'}
+                  </Button>
+                  
+                  <Button
+                    onClick={() => setShowCamera(true)}
+                    variant="outline"
+                    className="px-8 py-3 border-2 border-gray-300 dark:border-gray-600 hover:border-blue-500 dark:hover:border-blue-400 rounded-2xl font-semibold transition-all duration-200"
+                  >
+                    <Camera className="w-4 h-4 mr-2" />
+                    Use Camera
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="batch">
+              <BatchScanner onOpen={(data) => onScanResult(data, 'manual')} />
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
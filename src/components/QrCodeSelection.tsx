@@ -0,0 +1,80 @@
+import React from 'react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { AlertTriangle, Search } from 'lucide-react';
+import { getDistinctCodes, type QrDecodeResult } from '@/lib/qrDecoder';
+
+interface QrCodeSelectionProps {
+  imageUrl: string;
+  result: QrDecodeResult;
+  onSelect: (data: string) => void;
+}
+
+// Shows every code found in one image, outlined and numbered on the picture,
+// and lets the user pick which one to analyze.
+export const QrCodeSelection: React.FC<QrCodeSelectionProps> = ({ imageUrl, result, onSelect }) => {
+  const distinct = getDistinctCodes(result.codes);
+  const hasOutlines = result.width > 0 && result.codes.some(code => code.cornerPoints.length > 0);
+
+  return (
+    <div className="space-y-4">
+      {distinct.length > 1 && (
+        <Alert className="bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-800">
+          <AlertTriangle className="h-4 w-4 text-red-500" />
+          <AlertDescription className="text-red-700 dark:text-red-300">
+            This image contains {distinct.length} QR codes that lead to different places. Scammers stick their
+            own code over a genuine one - check which code belongs to the poster or sign before using either.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="relative w-full">
+        <img src={imageUrl} alt="Image with detected QR codes" className="w-full rounded-lg border border-gray-200 dark:border-gray-700" />
+        {hasOutlines && (
+          <svg
+            viewBox={`0 0 ${result.width} ${result.height}`}
+            className="absolute inset-0 w-full h-full pointer-events-none"
+            preserveAspectRatio="none"
+          >
+            {result.codes.map((code, index) => {
+              if (code.cornerPoints.length === 0) return null;
+              const { x, y } = code.cornerPoints[0];
+              const fontSize = Math.max(result.width, result.height) / 25;
+              return (
+                <g key={index}>
+                  <polygon
+                    points={code.cornerPoints.map(point => `${point.x},${point.y}`).join(' ')}
+                    fill="rgba(59, 130, 246, 0.15)"
+                    stroke={distinct.length > 1 ? '#ef4444' : '#3b82f6'}
+                    strokeWidth={fontSize / 6}
+                  />
+                  <text x={x} y={y - fontSize / 4} fontSize={fontSize} fontWeight="bold" fill={distinct.length > 1 ? '#ef4444' : '#3b82f6'}>
+                    {index + 1}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        {result.codes.map((code, index) => (
+          <li
+            key={index}
+            className="flex items-center justify-between gap-3 p-3 bg-gray-50 dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700"
+          >
+            <div className="flex items-start gap-2 min-w-0">
+              <span className="text-sm font-bold text-blue-600 dark:text-blue-400">{index + 1}.</span>
+              <p className="text-sm font-mono text-gray-800 dark:text-gray-200 break-all">{code.data}</p>
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onSelect(code.data)} className="shrink-0">
+              <Search className="w-4 h-4 mr-1" />
+              Scan
+            </Button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Eye, EyeOff } from 'lucide-react';
+import { payloadTypeLabels } from '@shared/payload';
+import type { QrPayload } from '@shared/types';
+
+interface QrPayloadViewProps {
+  payload: QrPayload;
+}
+
+// Structured view of a decoded QR code: its type plus the fields the phone
+// would act on, with passwords and secrets hidden until revealed.
+export const QrPayloadView: React.FC<QrPayloadViewProps> = ({ payload }) => {
+  const [revealed, setRevealed] = useState<Record<number, boolean>>({});
+
+  return (
+    <div className="space-y-3">
+      <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+        {payloadTypeLabels[payload.type]}
+      </Badge>
+
+      {payload.type !== 'url' && payload.type !== 'text' && payload.fields.length > 0 && (
+        <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2 text-sm">
+          {payload.fields.map((field, index) => (
+            <React.Fragment key={`${field.key}-${index}`}>
+              <dt className="text-gray-500 dark:text-gray-400">{field.label}</dt>
+              <dd className="flex items-center gap-2 min-w-0">
+                <span className="font-mono text-gray-800 dark:text-gray-200 break-all whitespace-pre-wrap">
+                  {field.sensitive && !revealed[index] ? '•'.repeat(Math.min(field.value.length, 12)) : field.value}
+                </span>
+                {field.sensitive && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRevealed(prev => ({ ...prev, [index]: !prev[index] }))}
+                    className="h-6 w-6 p-0 shrink-0"
+                  >
+                    {revealed[index] ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                  </Button>
+                )}
+              </dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      <div className="p-3 sm:p-4 bg-gray-50 dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700">
+        <p className="text-xs sm:text-sm font-mono text-gray-800 dark:text-gray-200 break-all whitespace-pre-wrap">
+          {payload.url ?? payload.raw}
+        </p>
+      </div>
+    </div>
+  );
+};
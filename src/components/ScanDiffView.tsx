@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowRight, GitCompare, TrendingDown, TrendingUp } from 'lucide-react';
+import { riskBadgeClasses } from '@/lib/providers';
+import type { CheckChange, CheckSnapshot, ScanDiff } from '@/lib/scanDiff';
+
+interface ScanDiffViewProps {
+  diff: ScanDiff;
+  storedAt: string;
+}
+
+const changeLabels: Record<CheckChange, { label: string; className: string }> = {
+  worse: { label: 'Worse', className: 'text-red-600 dark:text-red-400 font-semibold' },
+  added: { label: 'New check', className: 'text-blue-600 dark:text-blue-400' },
+  changed: { label: 'Changed', className: 'text-amber-600 dark:text-amber-400' },
+  removed: { label: 'Not run', className: 'text-gray-500 dark:text-gray-400' },
+  better: { label: 'Better', className: 'text-green-600 dark:text-green-400' },
+  unchanged: { label: 'Same', className: 'text-gray-500 dark:text-gray-400' }
+};
+
+const statusClasses: Record<string, string> = {
+  passed: 'text-green-600 dark:text-green-400',
+  warning: 'text-amber-600 dark:text-amber-400',
+  failed: 'text-red-600 dark:text-red-400'
+};
+
+const renderSnapshot = (snapshot?: CheckSnapshot) => {
+  if (!snapshot) return <span className="text-gray-400">-</span>;
+  return (
+    <div>
+      <span className={`text-xs font-bold uppercase ${statusClasses[snapshot.status] ?? 'text-gray-500'}`}>{snapshot.status}</span>
+      {snapshot.totalEngines !== undefined && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">{snapshot.positives ?? 0}/{snapshot.totalEngines} engines</p>
+      )}
+    </div>
+  );
+};
+
+// Side-by-side comparison of a stored scan and a fresh re-scan of the same
+// QR code, with regressions listed first.
+export const ScanDiffView: React.FC<ScanDiffViewProps> = ({ diff, storedAt }) => {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const unchanged = diff.checks.filter(check => check.change === 'unchanged').length;
+  const rows = showUnchanged ? diff.checks : diff.checks.filter(check => check.change !== 'unchanged');
+
+  return (
+    <Card className="border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg sm:text-xl text-gray-800 dark:text-gray-100">
+          <GitCompare className="w-5 h-5 text-blue-500" />
+          Re-scan Comparison
+        </CardTitle>
+        <CardDescription>Stored scan from {new Date(storedAt).toLocaleString()} compared with a scan run just now</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center justify-center gap-4 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700">
+          <div className="text-center">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Stored</p>
+            <Badge className={`${riskBadgeClasses[diff.previous.overallRisk]} border`}>{diff.previous.overallRisk}</Badge>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Score {diff.previous.score}</p>
+          </div>
+          <ArrowRight className="w-5 h-5 text-gray-400" />
+          <div className="text-center">
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-1">Now</p>
+            <Badge className={`${riskBadgeClasses[diff.current.overallRisk]} border`}>{diff.current.overallRisk}</Badge>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Score {diff.current.score}</p>
+          </div>
+          {diff.riskChange !== 'unchanged' && (
+            <p className={`flex items-center gap-1 text-sm font-semibold ${diff.riskChange === 'worse' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {diff.riskChange === 'worse' ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+              {diff.riskChange === 'worse' ? 'Risk has increased since the stored scan' : 'Risk has decreased since the stored scan'}
+            </p>
+          )}
+        </div>
+
+        {rows.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400">Every check returned the same verdict as before.</p>
+        ) : (
+          <div className="rounded-2xl border border-gray-200 dark:border-gray-700">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Check</TableHead>
+                  <TableHead>Stored</TableHead>
+                  <TableHead>Now</TableHead>
+                  <TableHead>Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(check => (
+                  <TableRow key={check.key}>
+                    <TableCell>
+                      <p className="text-sm font-medium">{check.name}</p>
+                      {check.target === 'final' && <p className="text-xs text-gray-500">Final destination</p>}
+                      {check.current?.details && check.change !== 'unchanged' && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 max-w-xs">{check.current.details}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{renderSnapshot(check.previous)}</TableCell>
+                    <TableCell>{renderSnapshot(check.current)}</TableCell>
+                    <TableCell className={`text-sm ${changeLabels[check.change].className}`}>{changeLabels[check.change].label}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {unchanged > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setShowUnchanged(!showUnchanged)}>
+            {showUnchanged ? 'Hide' : 'Show'} {unchanged} unchanged check{unchanged === 1 ? '' : 's'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -8,7 +8,6 @@ import {
   Shield, 
   Activity, 
   Globe, 
-  Lock, 
   Zap, 
   AlertTriangle,
   Check,
@@ -19,25 +18,36 @@ import {
   TrendingUp,
   Gauge,
   Camera,
-  ExternalLink
+  ExternalLink,
+  Clock,
+  CornerDownRight,
+  Link2,
+  RefreshCw,
+  Monitor,
+  Smartphone,
+  Lock,
+  CalendarClock,
+  MinusCircle,
+  XCircle
 } from 'lucide-react';
-
-interface SecurityCheck {
-  name: string;
-  status: 'pending' | 'passed' | 'failed' | 'warning';
-  description: string;
-  details?: string;
-  engines?: any;
-  screenshot?: string;
-}
+import { formatDistanceToNow } from 'date-fns';
+import { getProviderAppearance, type ProviderRunState } from '@/lib/providers';
+import { captureDeviceLabels } from '@shared/cloaking';
+import { assessRisk, riskFromScore } from '@shared/scoring';
+import type { CertificateInfo, DomainRegistration, PageCapture, ProviderDefinition, RedirectChain, RedirectHop, SecurityCheck } from '@shared/types';
 
 interface SecurityAnalyzerProps {
   isScanning: boolean;
   scanProgress: number;
   scanningStep: string;
   securityChecks: SecurityCheck[];
+  providers: ProviderDefinition[];
+  providerStates: Record<string, ProviderRunState>;
+  redirectChain?: RedirectChain | null;
   showAllEngines: boolean;
   onToggleEngines: () => void;
+  // Offered when some verdicts were reused from the cache.
+  onForceRefresh?: () => void;
 }
 
 export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
@@ -45,30 +55,21 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
   scanProgress,
   scanningStep,
   securityChecks,
+  providers,
+  providerStates,
+  redirectChain,
   showAllEngines,
   onToggleEngines,
+  onForceRefresh,
 }) => {
-  const getOverallRisk = () => {
-    if (securityChecks.some(c => c.status === 'failed')) return 'HIGH';
-    if (securityChecks.some(c => c.status === 'warning')) return 'MEDIUM';
-    return 'LOW';
-  };
-
-  const getRiskScore = () => {
-    const total = securityChecks.length;
-    if (total === 0) return 0;
-    
-    const failed = securityChecks.filter(c => c.status === 'failed').length;
-    const warnings = securityChecks.filter(c => c.status === 'warning').length;
-    
-    return Math.max(0, 100 - (failed * 40) - (warnings * 20));
-  };
-
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'passed': return <Check className="w-5 h-5 text-green-500" />;
       case 'failed': return <FileX className="w-5 h-5 text-red-500" />;
       case 'warning': return <AlertTriangle className="w-5 h-5 text-amber-500" />;
+      case 'timeout': return <Clock className="w-5 h-5 text-slate-500" />;
+      case 'error': return <XCircle className="w-5 h-5 text-slate-500" />;
+      case 'skipped': return <MinusCircle className="w-5 h-5 text-slate-500" />;
       default: return <Activity className="w-5 h-5 text-gray-400 animate-pulse" />;
     }
   };
@@ -78,6 +79,9 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
       passed: "bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800",
       failed: "bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800",
       warning: "bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800",
+      timeout: "bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800/40 dark:text-slate-300 dark:border-slate-700",
+      error: "bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800/40 dark:text-slate-300 dark:border-slate-700",
+      skipped: "bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800/40 dark:text-slate-300 dark:border-slate-700",
       pending: "bg-gray-100 text-gray-600 border-gray-200 dark:bg-gray-800 dark:text-gray-400 dark:border-gray-700"
     };
     
@@ -106,6 +110,460 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
     return <Eye className="w-4 h-4 text-gray-400" />;
   };
 
+  const getProviderStateLabel = (state: ProviderRunState | undefined) => {
+    switch (state) {
+      case 'running': return 'Running';
+      case 'completed': return 'Done';
+      case 'timeout': return 'Timed out';
+      case 'error': return 'Failed';
+      default: return 'Queued';
+    }
+  };
+
+  const getHopLabel = (hop: RedirectHop) => {
+    switch (hop.via) {
+      case 'http': return hop.status ? `HTTP ${hop.status}` : 'HTTP redirect';
+      case 'meta-refresh': return 'Meta refresh';
+      case 'javascript': return 'JavaScript';
+      default: return hop.status ? `Scanned URL · ${hop.status}` : 'Scanned URL';
+    }
+  };
+
+  const getStopReasonMessage = (chain: RedirectChain) => {
+    switch (chain.stopReason) {
+      case 'hop-limit': return 'Stopped after too many redirects - the real destination may be further along';
+      case 'loop': return 'The redirects loop back to a URL already visited';
+      case 'unsupported-scheme': return 'The chain ends in a link that opens another app rather than a web page';
+      case 'blocked': return 'The chain points at a private network address and was not followed';
+      case 'timeout': return 'Redirects could not be followed in time - the last hop reached is shown';
+      case 'error': return `Redirects could not be followed: ${chain.error ?? 'request failed'}`;
+      default: return null;
+    }
+  };
+
+  const renderRedirectChain = (chain: RedirectChain) => {
+    const stopMessage = getStopReasonMessage(chain);
+    if (chain.hops.length <= 1 && !stopMessage) return null;
+
+    return (
+      <div className="bg-gray-50 dark:bg-gray-800/50 rounded-2xl border border-gray-200 dark:border-gray-700/50 p-6 space-y-4">
+        <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+          <Link2 className="w-5 h-5 text-blue-500" />
+          Redirect Chain ({chain.hops.length - 1} redirect{chain.hops.length === 2 ? '' : 's'})
+        </h4>
+        <ol className="space-y-2">
+          {chain.hops.map((hop, index) => (
+            <li key={`${hop.url}-${index}`} className="flex items-start gap-2" style={{ paddingLeft: `${Math.min(index, 6) * 0.75}rem` }}>
+              {index > 0 && <CornerDownRight className="w-4 h-4 text-gray-400 mt-0.5 shrink-0" />}
+              <div className="min-w-0">
+                <p className={`text-sm font-mono break-all ${
+                  index === chain.hops.length - 1 ? 'font-semibold text-gray-900 dark:text-gray-100' : 'text-gray-700 dark:text-gray-300'
+                }`}>
+                  {hop.url}
+                </p>
+                <Badge variant="outline" className="text-xs mt-1">{getHopLabel(hop)}</Badge>
+              </div>
+            </li>
+          ))}
+        </ol>
+        {stopMessage && (
+          <p className="text-sm text-amber-700 dark:text-amber-400 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            {stopMessage}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // Registry data for each domain the scan looked up, once per domain even
+  // when the QR code URL and its final destination share one.
+  const renderDomainIntel = () => {
+    const registrations = [...new Map(securityChecks
+      .filter(check => check.domainRegistration)
+      .map(check => [check.domainRegistration.domain, check.domainRegistration] as const)).values()];
+    if (registrations.length === 0) return null;
+
+    const formatDate = (iso?: string, withAge = false) => {
+      if (!iso) return 'Not published';
+      const date = new Date(iso);
+      return withAge ? `${date.toLocaleDateString()} (${formatDistanceToNow(date, { addSuffix: true })})` : date.toLocaleDateString();
+    };
+
+    const renderRegistration = (registration: DomainRegistration) => (
+      <div key={registration.domain} className="space-y-3">
+        <p className="font-mono font-semibold text-gray-900 dark:text-gray-100 break-all">{registration.domain}</p>
+        <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+          <dt className="text-gray-500 dark:text-gray-400">Registered</dt>
+          <dd className="text-gray-800 dark:text-gray-200">{formatDate(registration.createdAt, true)}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Registrar</dt>
+          <dd className="text-gray-800 dark:text-gray-200 break-words">{registration.registrar ?? 'Not published'}</dd>
+          <dt className="text-gray-500 dark:text-gray-400">Expires</dt>
+          <dd className="text-gray-800 dark:text-gray-200">{formatDate(registration.expiresAt)}</dd>
+          {registration.updatedAt && (
+            <>
+              <dt className="text-gray-500 dark:text-gray-400">Last changed</dt>
+              <dd className="text-gray-800 dark:text-gray-200">{formatDate(registration.updatedAt)}</dd>
+            </>
+          )}
+          {registration.nameservers.length > 0 && (
+            <>
+              <dt className="text-gray-500 dark:text-gray-400">Nameservers</dt>
+              <dd className="font-mono text-gray-800 dark:text-gray-200 break-all">{registration.nameservers.join(', ')}</dd>
+            </>
+          )}
+        </dl>
+        {registration.statuses.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {registration.statuses.map((status) => (
+              <Badge key={status} variant="outline" className="text-xs">{status}</Badge>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+
+    return (
+      <div className="bg-gray-50 dark:bg-gray-800/50 rounded-2xl border border-gray-200 dark:border-gray-700/50 p-6 space-y-4">
+        <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-indigo-500" />
+          Domain Intelligence
+        </h4>
+        {registrations.map(renderRegistration)}
+      </div>
+    );
+  };
+
+  // Checks of the final destination are listed separately from those of the
+  // URL in the QR code itself.
+  const renderChecks = () => {
+    const finalChecks = securityChecks.filter(check => check.target === 'final');
+    if (finalChecks.length === 0) return securityChecks.map(renderCheck);
+
+    return (
+      <>
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-200">QR Code URL</h4>
+        {securityChecks.filter(check => check.target !== 'final').map(renderCheck)}
+        <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-200 break-all">
+          Final Destination{redirectChain && <span className="font-mono text-sm font-normal text-gray-500 dark:text-gray-400 ml-2">{redirectChain.finalUrl}</span>}
+        </h4>
+        {finalChecks.map(renderCheck)}
+      </>
+    );
+  };
+
+  // Which verdicts were reused from an earlier scan of the same URL, and how
+  // old the oldest of them is.
+  const renderCacheNotice = () => {
+    const cachedChecks = securityChecks.filter(check => check.cachedAt);
+    if (cachedChecks.length === 0) return null;
+
+    const cachedProviderIds = new Set(cachedChecks.map(check => check.providerId));
+    const names = providers.filter(provider => cachedProviderIds.has(provider.id)).map(provider => provider.name);
+    const label = names.length > 0 ? names.join(', ') : 'Some';
+    const oldest = Math.min(...cachedChecks.map(check => new Date(check.cachedAt).getTime()));
+
+    return (
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 rounded-2xl bg-blue-50 dark:bg-blue-950/20 border border-blue-200 dark:border-blue-800">
+        <p className="text-sm text-blue-800 dark:text-blue-300 flex items-center gap-2">
+          <Clock className="w-4 h-4 shrink-0" />
+          {label} verdicts cached from {formatDistanceToNow(oldest)} ago
+        </p>
+        {onForceRefresh && (
+          <Button variant="outline" size="sm" onClick={onForceRefresh} className="shrink-0">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Force refresh
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  // The same page as each device saw it, side by side, so differences between
+  // the desktop and mobile views stand out.
+  const renderCaptures = (captures: PageCapture[]) => (
+    <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50">
+      <div className="flex items-center gap-2 mb-4">
+        <Camera className="w-5 h-5 text-blue-500" />
+        <h4 className="font-semibold text-gray-800 dark:text-gray-200">Sandbox Screenshots</h4>
+        <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 text-xs">
+          SECURE ENVIRONMENT
+        </Badge>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+        {captures.map(capture => (
+          <div key={capture.device} className="space-y-2 min-w-0">
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-300 flex items-center gap-2">
+              {capture.device === 'desktop' ? <Monitor className="w-4 h-4" /> : <Smartphone className="w-4 h-4" />}
+              {captureDeviceLabels[capture.device]}
+            </p>
+            {capture.screenshot ? (
+              <div className="relative group">
+                <img
+                  src={capture.screenshot}
+                  alt={`Sandbox screenshot of the website as ${captureDeviceLabels[capture.device]}`}
+                  className="w-full max-h-96 object-contain object-top rounded-lg border-2 border-gray-300 dark:border-gray-600 shadow-lg"
+                  onError={(e) => {
+                    console.error('Screenshot failed to load');
+                    e.currentTarget.style.display = 'none';
+                  }}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => window.open(capture.screenshot, '_blank')}
+                  className="absolute top-2 right-2 bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm hover:bg-white dark:hover:bg-gray-800 shadow-md"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center h-40 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 p-4 text-sm text-gray-500 dark:text-gray-400 text-center">
+                {capture.error ?? 'No screenshot available'}
+              </div>
+            )}
+            {!capture.error && (
+              <div className="text-xs text-gray-600 dark:text-gray-400 space-y-1">
+                <p className="font-medium text-gray-800 dark:text-gray-200 break-words">{capture.title || '(no title)'}</p>
+                {capture.finalUrl && <p className="font-mono break-all">{capture.finalUrl}</p>}
+                {capture.domSize !== undefined && <p>{capture.domSize} elements</p>}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderCertificate = (certificate: CertificateInfo) => {
+    const rows: [string, string][] = [
+      ['Issuer', certificate.issuer],
+      ['Subject', certificate.subject],
+      ['Valid from', `${new Date(certificate.validFrom).toLocaleDateString()} (${formatDistanceToNow(new Date(certificate.validFrom), { addSuffix: true })})`],
+      ['Valid until', new Date(certificate.validTo).toLocaleDateString()],
+      ['Protocol', certificate.protocol],
+      ['Trust', certificate.selfSigned ? 'Self-signed' : certificate.authorizationError ?? 'Trusted chain']
+    ].filter((row): row is [string, string] => Boolean(row[1]));
+
+    return (
+      <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50 space-y-4">
+        <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+          <Lock className="w-5 h-5 text-green-500" />
+          TLS Certificate
+        </h4>
+        <dl className="grid grid-cols-1 sm:grid-cols-[auto_1fr] gap-x-6 gap-y-1 text-sm">
+          {rows.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500 dark:text-gray-400">{label}</dt>
+              <dd className="text-gray-800 dark:text-gray-200 break-words">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        {certificate.subjectAltNames.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {certificate.subjectAltNames.slice(0, 20).map((name) => (
+              <Badge key={name} variant="outline" className="font-mono text-xs">
+                {name}
+              </Badge>
+            ))}
+            {certificate.subjectAltNames.length > 20 && (
+              <Badge variant="outline" className="text-xs">+{certificate.subjectAltNames.length - 20} more</Badge>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderCheck = (check: SecurityCheck, index: number) => (
+    <div key={index} className="bg-gray-50 dark:bg-gray-800/50 rounded-2xl border border-gray-200 dark:border-gray-700/50 overflow-hidden transition-all duration-300 hover:shadow-lg">
+      <div className="flex items-center justify-between p-6">
+        <div className="flex items-center space-x-4">
+          <div className="p-2 bg-white dark:bg-gray-900 rounded-xl shadow-sm">
+            {getStatusIcon(check.status)}
+          </div>
+          <div className="flex-1">
+            <div className="flex items-center gap-2">
+              <p className="font-semibold text-lg text-gray-800 dark:text-gray-200">{check.name}</p>
+              {check.impersonatedBrand && (
+                <Badge variant="outline" className="border-red-300 text-red-700 dark:border-red-800 dark:text-red-400">
+                  Impersonates {check.impersonatedBrand}
+                </Badge>
+              )}
+              {check.cachedAt && (
+                <Badge variant="outline" className="text-xs" title={new Date(check.cachedAt).toLocaleString()}>
+                  Cached {formatDistanceToNow(new Date(check.cachedAt), { addSuffix: true })}
+                </Badge>
+              )}
+            </div>
+            <p className="text-gray-600 dark:text-gray-400">{check.description}</p>
+            {check.details && (
+              <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">{check.details}</p>
+            )}
+          </div>
+        </div>
+        <Badge className={`${getStatusBadge(check.status)} border font-bold text-sm px-4 py-2`}>
+          {check.status.toUpperCase()}
+        </Badge>
+      </div>
+
+      {/* Findings */}
+      {check.findings?.length > 0 && (
+        <div className="border-t border-gray-200 dark:border-gray-700/50 px-6 py-4 bg-white/50 dark:bg-gray-900/50">
+          <ul className="space-y-2">
+            {check.findings.map((finding, findingIndex) => (
+              <li key={findingIndex} className="flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <AlertTriangle className="w-4 h-4 text-amber-500 mt-0.5 shrink-0" />
+                {finding}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Sandbox Screenshot */}
+      {check.captures?.length > 1 ? renderCaptures(check.captures) : check.screenshot && (
+        <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50">
+          <div className="flex items-center gap-2 mb-4">
+            <Camera className="w-5 h-5 text-blue-500" />
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200">Sandbox Screenshot</h4>
+            <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 text-xs">
+              SECURE ENVIRONMENT
+            </Badge>
+          </div>
+          <div className="relative group">
+            <img 
+              src={check.screenshot} 
+              alt="Sandbox screenshot of the website" 
+              className="w-full max-w-2xl mx-auto rounded-lg border-2 border-gray-300 dark:border-gray-600 shadow-lg transition-transform duration-300 group-hover:scale-105"
+              onError={(e) => {
+                console.error('Screenshot failed to load');
+                e.currentTarget.style.display = 'none';
+              }}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.open(check.screenshot, '_blank')}
+              className="absolute top-2 right-2 bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm hover:bg-white dark:hover:bg-gray-800 shadow-md"
+            >
+              <ExternalLink className="w-4 h-4" />
+            </Button>
+            <div className="mt-3 text-center">
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {check.providerId === 'browserless'
+                  ? 'Website captured in isolated sandbox environment (1280x720)'
+                  : `Website captured by ${check.name}`}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* TLS Certificate */}
+      {check.certificate && renderCertificate(check.certificate)}
+
+      {/* Page Details */}
+      {(check.finalUrl || check.contactedDomains?.length > 0 || check.reportUrl) && (
+        <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50 space-y-4">
+          {check.finalUrl && (
+            <div>
+              <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2 mb-2">
+                <Globe className="w-5 h-5 text-blue-500" />
+                Final URL
+              </h4>
+              <p className="text-sm font-mono text-gray-700 dark:text-gray-300 break-all">{check.finalUrl}</p>
+            </div>
+          )}
+          {check.contactedDomains?.length > 0 && (
+            <div>
+              <h4 className="font-semibold text-gray-800 dark:text-gray-200 mb-2">
+                Contacted Domains ({check.contactedDomains.length})
+              </h4>
+              <div className="flex flex-wrap gap-2">
+                {check.contactedDomains.map((domain) => (
+                  <Badge key={domain} variant="outline" className="font-mono text-xs">
+                    {domain}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          {check.reportUrl && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => window.open(check.reportUrl, '_blank')}
+              className="text-blue-500 hover:text-blue-600 px-0"
+            >
+              View full report <ExternalLink className="w-3 h-3 ml-1" />
+            </Button>
+          )}
+        </div>
+      )}
+
+      {/* Engine Results */}
+      {check.engines && (
+        <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50">
+          <div className="flex items-center justify-between mb-4">
+            <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+              <Activity className="w-5 h-5" />
+              Security Engine Analysis ({Object.keys(check.engines.scans || {}).length} engines)
+            </h4>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onToggleEngines}
+              className="text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              {showAllEngines ? (
+                <>Hide Details <ChevronUp className="w-4 h-4 ml-1" /></>
+              ) : (
+                <>Show All <ChevronDown className="w-4 h-4 ml-1" /></>
+              )}
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-80 overflow-y-auto">
+            {Object.entries(check.engines.scans || {})
+              .slice(0, showAllEngines ? undefined : 8)
+              .map(([engine, result]) => (
+              <div
+                key={engine}
+                className={`flex items-center justify-between p-3 rounded-xl border transition-all duration-200 hover:scale-105 ${
+                  result.detected 
+                    ? 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-800 shadow-sm' 
+                    : 'bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800 shadow-sm'
+                }`}
+              >
+                <div className="flex items-center space-x-3">
+                  {getEngineIcon(result.result)}
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{engine}</span>
+                </div>
+                <span className={`text-sm font-bold px-2 py-1 rounded-lg ${
+                  result.detected 
+                    ? 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30' 
+                    : 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30'
+                }`}>
+                  {result.result}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {check.engines.positives > 0 && (
+            <div className="mt-4 p-4 bg-amber-50 dark:bg-amber-950/20 rounded-xl border border-amber-200 dark:border-amber-800">
+              <p className="text-amber-800 dark:text-amber-300 font-medium flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5" />
+                Threat Detected: {check.engines.positives} out of {check.engines.total} engines flagged this URL
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   if (isScanning) {
     return (
       <Card className="mb-8 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl overflow-hidden relative">
@@ -144,46 +602,61 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
             </div>
 
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-8">
-              {[
-                { icon: Globe, label: 'URL Analysis', color: 'blue', delay: '0s' },
-                { icon: Shield, label: 'Threat Detection', color: 'purple', delay: '0.2s' },
-                { icon: Lock, label: 'Safe Browsing', color: 'green', delay: '0.4s' },
-                { icon: Camera, label: 'Sandbox Screenshot', color: 'amber', delay: '0.6s' }
-              ].map((item, index) => (
+              {providers.map((provider, index) => ({
+                ...getProviderAppearance(provider),
+                id: provider.id,
+                label: provider.name,
+                state: providerStates[provider.id],
+                delay: `${index * 0.2}s`
+              })).map((item) => (
                 <div 
-                  key={index}
-                  className={`flex items-center space-x-3 p-4 bg-${item.color}-50 dark:bg-${item.color}-950/20 rounded-2xl border border-${item.color}-200 dark:border-${item.color}-800 transform transition-all duration-500 hover:scale-105`}
+                  key={item.id}
+                  className={`flex items-center space-x-3 p-4 bg-${item.color}-50 dark:bg-${item.color}-950/20 rounded-2xl border border-${item.color}-200 dark:border-${item.color}-800 transform transition-all duration-500 hover:scale-105 ${
+                    item.state === 'queued' ? 'opacity-60' : ''
+                  }`}
                   style={{ animationDelay: item.delay }}
                 >
                   <div className={`p-2 bg-${item.color}-100 dark:bg-${item.color}-900/30 rounded-xl`}>
-                    <item.icon className={`w-6 h-6 text-${item.color}-500 animate-pulse`} />
+                    <item.icon className={`w-6 h-6 text-${item.color}-500 ${item.state === 'running' ? 'animate-pulse' : ''}`} />
                   </div>
                   <div>
                     <span className={`text-sm font-bold text-${item.color}-700 dark:text-${item.color}-300 block`}>
                       {item.label}
                     </span>
-                    <div className={`w-8 h-1 bg-${item.color}-300 dark:bg-${item.color}-600 rounded-full mt-1 animate-pulse`}></div>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {getProviderStateLabel(item.state)}
+                    </span>
                   </div>
                 </div>
               ))}
             </div>
 
-            <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-2xl border-2 border-dashed border-gray-300 dark:border-gray-600">
-              <div className="flex items-center justify-center space-x-3">
-                <div className="flex space-x-1">
-                  {[0, 1, 2].map((i) => (
-                    <div
-                      key={i}
-                      className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"
-                      style={{ animationDelay: `${i * 0.2}s` }}
-                    ></div>
-                  ))}
+            {redirectChain && renderRedirectChain(redirectChain)}
+
+            {renderDomainIntel()}
+
+            {securityChecks.length > 0 ? (
+              <div className="space-y-4">
+                {renderChecks()}
+              </div>
+            ) : (
+              <div className="mt-6 p-4 bg-gray-50 dark:bg-gray-800/50 rounded-2xl border-2 border-dashed border-gray-300 dark:border-gray-600">
+                <div className="flex items-center justify-center space-x-3">
+                  <div className="flex space-x-1">
+                    {[0, 1, 2].map((i) => (
+                      <div
+                        key={i}
+                        className="w-2 h-2 bg-blue-500 rounded-full animate-bounce"
+                        style={{ animationDelay: `${i * 0.2}s` }}
+                      ></div>
+                    ))}
+                  </div>
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
+                    Waiting for the first security provider to report...
+                  </span>
                 </div>
-                <span className="text-sm font-medium text-gray-600 dark:text-gray-400">
-                  Analyzing with multiple security engines and capturing sandbox screenshot...
-                </span>
               </div>
-            </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -192,8 +665,7 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
 
   if (securityChecks.length === 0) return null;
 
-  const overallRisk = getOverallRisk();
-  const riskScore = getRiskScore();
+  const { score: riskScore, overallRisk, confidence, verdict, reasons } = assessRisk(securityChecks);
 
   return (
     <Card className="mb-8 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
@@ -210,6 +682,8 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
+          {renderCacheNotice()}
+
           {/* Risk Meter Dashboard */}
           <div className="p-6 rounded-3xl border-2 border-dashed border-gray-200 dark:border-gray-700 bg-gradient-to-r from-gray-50 to-blue-50 dark:from-gray-800 dark:to-blue-950/20">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
@@ -226,147 +700,74 @@ export const SecurityAnalyzer: React.FC<SecurityAnalyzerProps> = ({
                   <div className="relative h-3 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
                     <div 
                       className={`absolute inset-y-0 left-0 rounded-full transition-all duration-1000 ${
-                        riskScore >= 70 ? 'bg-gradient-to-r from-green-400 to-green-600' :
-                        riskScore >= 40 ? 'bg-gradient-to-r from-amber-400 to-amber-600' :
+                        !verdict ? 'bg-gray-400 dark:bg-gray-500' :
+                        riskFromScore(riskScore) === 'LOW' ? 'bg-gradient-to-r from-green-400 to-green-600' :
+                        riskFromScore(riskScore) === 'MEDIUM' ? 'bg-gradient-to-r from-amber-400 to-amber-600' :
                         'bg-gradient-to-r from-red-400 to-red-600'
                       }`}
                       style={{ width: `${riskScore}%` }}
                     ></div>
                   </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {verdict
+                      ? `Confidence ${confidence}% based on the sources that answered`
+                      : 'No source answered - re-run the scan for a verdict'}
+                  </p>
                 </div>
               </div>
               
               <div className="flex justify-center">
-                <div className={`px-6 py-4 rounded-2xl font-bold text-xl ${getRiskColor(overallRisk)} border-2 ${
+                <div className={`px-6 py-4 rounded-2xl font-bold text-xl ${getRiskColor(verdict ? overallRisk : '')} border-2 ${
+                  !verdict ? 'border-gray-300 dark:border-gray-700' :
                   overallRisk === 'HIGH' ? 'border-red-300 dark:border-red-700 shadow-lg shadow-red-500/20' :
                   overallRisk === 'MEDIUM' ? 'border-amber-300 dark:border-amber-700 shadow-lg shadow-amber-500/20' :
                   'border-green-300 dark:border-green-700 shadow-lg shadow-green-500/20'
                 } animate-pulse`}>
-                  {overallRisk} RISK
+                  {verdict ? `${overallRisk} RISK` : 'NO VERDICT'}
                 </div>
               </div>
             </div>
-          </div>
-
-          {/* Security Checks */}
-          {securityChecks.map((check, index) => (
-            <div key={index} className="bg-gray-50 dark:bg-gray-800/50 rounded-2xl border border-gray-200 dark:border-gray-700/50 overflow-hidden transition-all duration-300 hover:shadow-lg">
-              <div className="flex items-center justify-between p-6">
-                <div className="flex items-center space-x-4">
-                  <div className="p-2 bg-white dark:bg-gray-900 rounded-xl shadow-sm">
-                    {getStatusIcon(check.status)}
-                  </div>
-                  <div className="flex-1">
-                    <p className="font-semibold text-lg text-gray-800 dark:text-gray-200">{check.name}</p>
-                    <p className="text-gray-600 dark:text-gray-400">{check.description}</p>
-                    {check.details && (
-                      <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">{check.details}</p>
-                    )}
-                  </div>
-                </div>
-                <Badge className={`${getStatusBadge(check.status)} border font-bold text-sm px-4 py-2`}>
-                  {check.status.toUpperCase()}
-                </Badge>
-              </div>
 
-              {/* Sandbox Screenshot */}
-              {check.screenshot && (
-                <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50">
-                  <div className="flex items-center gap-2 mb-4">
-                    <Camera className="w-5 h-5 text-blue-500" />
-                    <h4 className="font-semibold text-gray-800 dark:text-gray-200">Sandbox Screenshot</h4>
-                    <Badge className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 text-xs">
-                      SECURE ENVIRONMENT
-                    </Badge>
-                  </div>
-                  <div className="relative group">
-                    <img 
-                      src={check.screenshot} 
-                      alt="Sandbox screenshot of the website" 
-                      className="w-full max-w-2xl mx-auto rounded-lg border-2 border-gray-300 dark:border-gray-600 shadow-lg transition-transform duration-300 group-hover:scale-105"
-                      onError={(e) => {
-                        console.error('Screenshot failed to load');
-                        e.currentTarget.style.display = 'none';
-                      }}
-                    />
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => window.open(check.screenshot, '_blank')}
-                      className="absolute top-2 right-2 bg-white/90 dark:bg-gray-900/90 backdrop-blur-sm hover:bg-white dark:hover:bg-gray-800 shadow-md"
-                    >
-                      <ExternalLink className="w-4 h-4" />
-                    </Button>
-                    <div className="mt-3 text-center">
-                      <p className="text-sm text-gray-600 dark:text-gray-400">
-                        Website captured in isolated sandbox environment (1280x720)
-                      </p>
+            {/* Contributing Reasons */}
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">Why this score</h4>
+              {reasons.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No check reported a problem.</p>
+              ) : (
+                reasons.map((reason, index) => (
+                  <div
+                    key={`${reason.checkName}-${index}`}
+                    className="flex items-start justify-between gap-4 p-3 rounded-xl bg-white/70 dark:bg-gray-900/50 border border-gray-200 dark:border-gray-700"
+                  >
+                    <div className="flex items-start gap-2">
+                      {getStatusIcon(reason.status)}
+                      <div>
+                        <p className="text-sm font-medium text-gray-800 dark:text-gray-200">
+                          {reason.checkName}
+                          {reason.target === 'final' && (
+                            <span className="text-xs font-normal text-gray-500 dark:text-gray-400 ml-1">(final destination)</span>
+                          )}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {reason.summary} · weight {reason.weight} · confidence {Math.round(reason.confidence * 100)}%
+                        </p>
+                      </div>
                     </div>
+                    <span className="text-sm font-bold text-red-600 dark:text-red-400 whitespace-nowrap">-{reason.impact}</span>
                   </div>
-                </div>
+                ))
               )}
+            </div>
+          </div>
 
-              {/* Engine Results */}
-              {check.engines && (
-                <div className="border-t border-gray-200 dark:border-gray-700/50 p-6 bg-white/50 dark:bg-gray-900/50">
-                  <div className="flex items-center justify-between mb-4">
-                    <h4 className="font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
-                      <Activity className="w-5 h-5" />
-                      Security Engine Analysis ({Object.keys(check.engines.scans || {}).length} engines)
-                    </h4>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={onToggleEngines}
-                      className="text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
-                    >
-                      {showAllEngines ? (
-                        <>Hide Details <ChevronUp className="w-4 h-4 ml-1" /></>
-                      ) : (
-                        <>Show All <ChevronDown className="w-4 h-4 ml-1" /></>
-                      )}
-                    </Button>
-                  </div>
+          {/* Redirect Chain */}
+          {redirectChain && renderRedirectChain(redirectChain)}
 
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-80 overflow-y-auto">
-                    {Object.entries(check.engines.scans || {})
-                      .slice(0, showAllEngines ? undefined : 8)
-                      .map(([engine, result]: [string, any]) => (
-                      <div
-                        key={engine}
-                        className={`flex items-center justify-between p-3 rounded-xl border transition-all duration-200 hover:scale-105 ${
-                          result.detected 
-                            ? 'bg-red-50 dark:bg-red-950/20 border-red-200 dark:border-red-800 shadow-sm' 
-                            : 'bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800 shadow-sm'
-                        }`}
-                      >
-                        <div className="flex items-center space-x-3">
-                          {getEngineIcon(result.result)}
-                          <span className="font-medium text-gray-700 dark:text-gray-300">{engine}</span>
-                        </div>
-                        <span className={`text-sm font-bold px-2 py-1 rounded-lg ${
-                          result.detected 
-                            ? 'text-red-600 dark:text-red-400 bg-red-100 dark:bg-red-900/30' 
-                            : 'text-green-600 dark:text-green-400 bg-green-100 dark:bg-green-900/30'
-                        }`}>
-                          {result.result}
-                        </span>
-                      </div>
-                    ))}
-                  </div>
+          {/* Domain Intelligence */}
+          {renderDomainIntel()}
 
-                  {check.engines.positives > 0 && (
-                    <div className="mt-4 p-4 bg-amber-50 dark:bg-amber-950/20 rounded-xl border border-amber-200 dark:border-amber-800">
-                      <p className="text-amber-800 dark:text-amber-300 font-medium flex items-center gap-2">
-                        <AlertTriangle className="w-5 h-5" />
-                        Threat Detected: {check.engines.positives} out of {check.engines.total} engines flagged this URL
-                      </p>
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-          ))}
+          {/* Security Checks */}
+          {renderChecks()}
         </div>
       </CardContent>
     </Card>
@@ -9,33 +9,242 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      organization_api_keys: {
+        Row: {
+          created_at: string
+          key_hints: Json
+          organization_id: string
+          secret_ids: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          key_hints?: Json
+          organization_id: string
+          secret_ids?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          key_hints?: Json
+          organization_id?: string
+          secret_ids?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_api_keys_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      provider_verdict_cache: {
+        Row: {
+          cached_at: string
+          checks: Json
+          duration_ms: number
+          expires_at: string
+          provider_id: string
+          url_key: string
+        }
+        Insert: {
+          cached_at?: string
+          checks: Json
+          duration_ms?: number
+          expires_at: string
+          provider_id: string
+          url_key: string
+        }
+        Update: {
+          cached_at?: string
+          checks?: Json
+          duration_ms?: number
+          expires_at?: string
+          provider_id?: string
+          url_key?: string
+        }
+        Relationships: []
+      }
       qr_scan_results: {
         Row: {
           created_at: string
           id: string
+          organization_id: string | null
           overall_risk: string | null
           qr_data: string
           scan_timestamp: string
           security_checks: Json
           user_id: string | null
+          verdict: boolean
         }
         Insert: {
           created_at?: string
           id?: string
+          organization_id?: string | null
           overall_risk?: string | null
           qr_data: string
           scan_timestamp?: string
           security_checks?: Json
           user_id?: string | null
+          verdict?: boolean
         }
         Update: {
           created_at?: string
           id?: string
+          organization_id?: string | null
           overall_risk?: string | null
           qr_data?: string
           scan_timestamp?: string
           security_checks?: Json
           user_id?: string | null
+          verdict?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "qr_scan_results_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scan_screenshots: {
+        Row: {
+          created_at: string
+          path: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          path: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          path?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      user_api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hints: Json
+          secret_ids: Json
+          updated_at: string
+          user_id: string
+          validation: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hints?: Json
+          secret_ids?: Json
+          updated_at?: string
+          user_id: string
+          validation?: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hints?: Json
+          secret_ids?: Json
+          updated_at?: string
+          user_id?: string
+          validation?: Json
         }
         Relationships: []
       }
@@ -44,7 +253,89 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_organization_invitation: {
+        Args: { invitation: string }
+        Returns: undefined
+      }
+      create_organization: {
+        Args: { org_name: string }
+        Returns: string
+      }
+      delete_organization_api_key: {
+        Args: { org: string; key_name: string }
+        Returns: undefined
+      }
+      delete_organization_invitation: {
+        Args: { invitation: string }
+        Returns: undefined
+      }
+      delete_user_api_key: {
+        Args: { key_name: string }
+        Returns: undefined
+      }
+      get_scan_api_keys: {
+        Args: { target_user: string }
+        Returns: Json
+      }
+      get_user_api_keys: {
+        Args: { target_user: string }
+        Returns: Json
+      }
+      invite_organization_member: {
+        Args: { org: string; member_email: string; member_role: string }
+        Returns: undefined
+      }
+      is_screenshot_owner: {
+        Args: { scan_user: string; screenshot_path: string }
+        Returns: boolean
+      }
+      list_my_organization_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          id: string
+          organization_id: string
+          organization_name: string
+          role: string
+          invited_at: string
+        }[]
+      }
+      list_organization_members: {
+        Args: { org: string }
+        Returns: {
+          user_id: string
+          email: string
+          role: string
+          joined_at: string
+        }[]
+      }
+      organization_role: {
+        Args: { org: string }
+        Returns: string
+      }
+      purge_screenshot_records: {
+        Args: { grace?: unknown }
+        Returns: number
+      }
+      remove_organization_member: {
+        Args: { org: string; member: string }
+        Returns: undefined
+      }
+      set_organization_api_key: {
+        Args: { org: string; key_name: string; key_value: string }
+        Returns: undefined
+      }
+      set_user_api_key: {
+        Args: { key_name: string; key_value: string }
+        Returns: undefined
+      }
+      unreferenced_screenshots: {
+        Args: { grace?: unknown; max_count?: number }
+        Returns: string[]
+      }
+      update_organization_member_role: {
+        Args: { org: string; member: string; member_role: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import { canUseSharedKeys, fetchOrganization, fetchOrganizationApiKeyHints } from '@/lib/organizations';
+import { apiKeyNames } from '@shared/providers';
+import type { ApiKeyName, ApiKeyValidation } from '@shared/types';
+
+// Where keys lived before they moved to the account. Only read to migrate.
+const LEGACY_API_KEYS_STORAGE_KEY = 'qr-shield-api-keys';
+
+// What the browser may know about a stored key: its last four characters and
+// the latest test result. The full keys stay server-side in Vault and are
+// only decrypted by the edge functions.
+export interface StoredApiKey {
+  hint: string;
+  validation?: ApiKeyValidation;
+}
+
+export type StoredApiKeys = Partial<Record<ApiKeyName, StoredApiKey>>;
+
+export const fetchStoredApiKeys = async (): Promise<StoredApiKeys> => {
+  const { data, error } = await supabase
+    .from('user_api_keys')
+    .select('key_hints, validation')
+    .maybeSingle();
+
+  if (error) throw error;
+  const hints = (data?.key_hints ?? {}) as Record<string, string>;
+  const validation = (data?.validation ?? {}) as unknown as Record<string, ApiKeyValidation>;
+  return Object.fromEntries(
+    Object.entries(hints).map(([name, hint]) => [name, { hint, validation: validation[name] }])
+  );
+};
+
+// Whether the user's scans have any provider keys to use, their own or their
+// organization's shared ones.
+export const hasScanApiKeys = async (userId: string): Promise<boolean> => {
+  if (Object.keys(await fetchStoredApiKeys()).length > 0) return true;
+
+  const organization = await fetchOrganization(userId);
+  if (!organization || !canUseSharedKeys(organization.role)) return false;
+  return Object.keys(await fetchOrganizationApiKeyHints(organization.id)).length > 0;
+};
+
+export const saveApiKey = async (name: ApiKeyName, value: string) => {
+  const { error } = await supabase.rpc('set_user_api_key', { key_name: name, key_value: value.trim() });
+  if (error) throw error;
+};
+
+export const deleteApiKey = async (name: ApiKeyName) => {
+  const { error } = await supabase.rpc('delete_user_api_key', { key_name: name });
+  if (error) throw error;
+};
+
+// Checks a key against its provider. Without `value` the stored key is tested
+// and the result is saved on the account.
+export const testApiKey = async (name: ApiKeyName, value?: string): Promise<ApiKeyValidation> => {
+  const keyValue = value?.trim();
+  const { data, error } = await supabase.functions.invoke('validate-api-key', {
+    body: { keyName: name, ...(keyValue && { keyValue }) }
+  });
+
+  if (error) throw error;
+  return data as ApiKeyValidation;
+};
+
+// Moves keys an earlier version left in localStorage into the signed-in
+// account, then removes them from the browser. Returns how many moved.
+export const migrateLocalApiKeys = async (): Promise<number> => {
+  const saved = localStorage.getItem(LEGACY_API_KEYS_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let keys: Record<string, string>;
+  try {
+    keys = JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to parse saved API keys:', error);
+    localStorage.removeItem(LEGACY_API_KEYS_STORAGE_KEY);
+    return 0;
+  }
+
+  const entries = apiKeyNames
+    .map(name => [name, keys[name]?.trim()] as const)
+    .filter((entry): entry is readonly [ApiKeyName, string] => Boolean(entry[1]));
+
+  for (const [name, value] of entries) {
+    await saveApiKey(name, value);
+  }
+  localStorage.removeItem(LEGACY_API_KEYS_STORAGE_KEY);
+  return entries.length;
+};
@@ -0,0 +1,296 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { parseQrPayload } from '@shared/payload';
+import { analyzeQrPayload } from '@shared/payloadChecks';
+import { assessRisk } from '@shared/scoring';
+import type { OverallRisk, QrPayloadType, ScanOptions, SecurityCheck } from '@shared/types';
+import { decodeQrImage, getDistinctCodes } from '@/lib/qrDecoder';
+import { streamSecurityScan } from '@/lib/securityScan';
+
+// Enough for a stack of flyers; larger lists should be split so one run does
+// not burn through a day of provider quota.
+export const MAX_BATCH_SIZE = 200;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+export const MAX_BATCH_CONCURRENCY = 5;
+
+const MAX_ATTEMPTS = 4;
+const BASE_BACKOFF_MS = 5000;
+// Per-minute provider quotas, such as a public VirusTotal key's, refill
+// within this.
+const QUOTA_BACKOFF_MS = 60000;
+
+// Column names that hold the QR contents in exported spreadsheets.
+const DATA_COLUMNS = ['url', 'link', 'qr_data', 'data', 'content', 'contents'];
+
+export type BatchItemStatus = 'queued' | 'decoding' | 'scanning' | 'waiting' | 'done' | 'error';
+
+export interface BatchItemResult {
+  checks: SecurityCheck[];
+  overallRisk: OverallRisk;
+  // False when no check answered; overallRisk then means nothing.
+  verdict: boolean;
+  // 0-100, higher is safer.
+  score: number;
+  flagged: number;
+  finalUrl?: string;
+}
+
+export interface BatchItem {
+  id: string;
+  // What the user supplied: a line from the list or an image file name.
+  input: string;
+  file?: File;
+  // QR contents once known; equal to `input` for list entries.
+  data?: string;
+  payloadType?: QrPayloadType;
+  status: BatchItemStatus;
+  // Set for images that carry more than one distinct code.
+  note?: string;
+  error?: string;
+  result?: BatchItemResult;
+}
+
+export interface BatchScanOptions {
+  scanOptions: ScanOptions;
+  concurrency: number;
+  signal: AbortSignal;
+  onUpdate: (id: string, changes: Partial<BatchItem>) => void;
+  onPause: (until: number | null) => void;
+  onScanned?: (item: BatchItem, data: string, result: BatchItemResult) => Promise<void> | void;
+}
+
+// Splits one CSV line, honouring double-quoted cells with embedded commas.
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';' || char === '\t') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+// Reads a pasted list (one entry per line) or an uploaded CSV. A header row
+// naming a url/data column selects that column; otherwise each CSV row
+// contributes its first cell that looks like a link.
+export const parseBatchInput = (text: string, { csv = false }: { csv?: boolean } = {}): string[] => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+
+  const header = splitCsvLine(lines[0]).map(cell => cell.toLowerCase());
+  const column = header.findIndex(cell => DATA_COLUMNS.includes(cell));
+  const rows = column >= 0 ? lines.slice(1) : lines;
+
+  const entries = rows.map((line) => {
+    if (column >= 0) return splitCsvLine(line)[column] ?? '';
+    if (!csv) return line;
+    const cells = splitCsvLine(line).filter(Boolean);
+    return cells.find(cell => parseQrPayload(cell).type === 'url') ?? cells[0] ?? '';
+  });
+
+  return [...new Set(entries.map(entry => entry.trim()).filter(Boolean))];
+};
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// The edge function answers 429 when the project's invocation limit is hit.
+const getRetryAfter = (error: unknown): number | null => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  const response = error.context as Response | undefined;
+  if (response?.status !== 429) return null;
+
+  const seconds = Number(response.headers.get('Retry-After'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+};
+
+// Providers report exhausted quotas as error checks rather than failing
+// the whole scan.
+const hitProviderQuota = (checks: SecurityCheck[]) =>
+  checks.some(check => check.status === 'error' && /quota|rate limit/i.test(`${check.details ?? ''} ${check.description}`));
+
+const summarize = (checks: SecurityCheck[], finalUrl?: string): BatchItemResult => {
+  const { score, overallRisk, verdict } = assessRisk(checks);
+  return {
+    checks,
+    overallRisk,
+    verdict,
+    score,
+    flagged: checks.filter(check => check.status === 'failed' || check.status === 'warning').length,
+    ...(finalUrl && { finalUrl })
+  };
+};
+
+// Works through the queue with at most `concurrency` scans in flight. A 429
+// from the edge function pauses every worker, backing off exponentially
+// (or for as long as Retry-After asks), and retries the item. When a
+// provider reports its quota is used up, the rest of the batch runs one scan
+// at a time and the item is scanned again once the quota has had time to
+// refill, so its result is not missing that provider.
+export const runBatchScan = async (items: BatchItem[], options: BatchScanOptions) => {
+  const { signal, onUpdate, onPause } = options;
+  const queue = [...items];
+  let concurrency = Math.min(Math.max(options.concurrency, 1), MAX_BATCH_CONCURRENCY);
+  let pausedUntil = 0;
+
+  const waitForPause = async () => {
+    while (!signal.aborted && Date.now() < pausedUntil) {
+      await sleep(pausedUntil - Date.now(), signal);
+    }
+  };
+
+  const resolveData = async (item: BatchItem): Promise<string> => {
+    if (!item.file) return item.input;
+
+    onUpdate(item.id, { status: 'decoding' });
+    const { codes } = await decodeQrImage(item.file);
+    const distinct = getDistinctCodes(codes);
+    if (distinct.length > 1) {
+      onUpdate(item.id, { note: `${distinct.length} different QR codes in this image - scanned the first one` });
+    }
+    return codes[0].data;
+  };
+
+  const scanItem = async (item: BatchItem, data: string): Promise<BatchItemResult> => {
+    const payload = parseQrPayload(data);
+    onUpdate(item.id, { data, payloadType: payload.type, status: 'scanning' });
+
+    if (!payload.url) {
+      return summarize(analyzeQrPayload(payload, options.scanOptions.protectedBrands));
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      await waitForPause();
+      if (signal.aborted) throw new Error('Batch stopped');
+      if (attempt > 1) onUpdate(item.id, { status: 'scanning' });
+
+      try {
+        const { results, redirectChain } = await streamSecurityScan({
+          url: payload.url,
+          options: options.scanOptions
+        });
+        if (hitProviderQuota(results) && attempt < MAX_ATTEMPTS) {
+          if (concurrency > 1) {
+            console.warn('Provider quota exhausted, continuing the batch one scan at a time');
+            concurrency = 1;
+          }
+          pausedUntil = Math.max(pausedUntil, Date.now() + QUOTA_BACKOFF_MS);
+          onPause(pausedUntil);
+          onUpdate(item.id, { status: 'waiting' });
+          continue;
+        }
+        return summarize(results, redirectChain && redirectChain.hops.length > 1 ? redirectChain.finalUrl : undefined);
+      } catch (error) {
+        const retryAfter = getRetryAfter(error);
+        if (retryAfter === null || attempt >= MAX_ATTEMPTS) throw error;
+
+        const delay = retryAfter || BASE_BACKOFF_MS * 2 ** (attempt - 1);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+        onPause(pausedUntil);
+        onUpdate(item.id, { status: 'waiting' });
+        console.warn(`Security scan rate limited, retrying in ${Math.round(delay / 1000)}s`);
+      }
+    }
+  };
+
+  const worker = async (index: number) => {
+    while (!signal.aborted && index < concurrency) {
+      await waitForPause();
+      onPause(null);
+
+      const item = queue.shift();
+      if (!item || signal.aborted) return;
+
+      try {
+        const data = await resolveData(item);
+        const result = await scanItem(item, data);
+        onUpdate(item.id, { status: 'done', result });
+        await options.onScanned?.(item, data, result);
+      } catch (error) {
+        console.error('Batch scan failed for', item.input, error);
+        onUpdate(item.id, {
+          status: signal.aborted ? 'queued' : 'error',
+          error: error instanceof Error ? error.message : 'Scan failed'
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: concurrency }, (_, index) => worker(index)));
+  onPause(null);
+};
+
+// QR contents are untrusted. Spreadsheets run cells starting with one of
+// these as formulas, so they are prefixed with an apostrophe to stay text.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | undefined) => {
+  const raw = value === undefined ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const batchResultsToCsv = (items: BatchItem[]): string => {
+  const header = ['input', 'qr_data', 'type', 'status', 'overall_risk', 'safety_score', 'flagged_checks', 'final_url', 'findings', 'note', 'error'];
+  const rows = items.map(item => [
+    item.input,
+    item.data,
+    item.payloadType,
+    item.status,
+    item.result && (item.result.verdict ? item.result.overallRisk : 'NO VERDICT'),
+    item.result?.score,
+    item.result?.flagged,
+    item.result?.finalUrl,
+    item.result?.checks
+      .filter(check => check.status !== 'passed')
+      .map(check => `${check.name}: ${check.details ?? check.description}`)
+      .join(' | '),
+    item.note,
+    item.error
+  ].map(csvCell).join(','));
+
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const batchResultsToJson = (items: BatchItem[]): string =>
+  JSON.stringify(
+    items.map(({ input, data, payloadType, status, note, error, result }) => ({
+      input,
+      qrData: data,
+      payloadType,
+      status,
+      note,
+      error,
+      overallRisk: result?.overallRisk,
+      verdict: result?.verdict,
+      safetyScore: result?.score,
+      finalUrl: result?.finalUrl,
+      checks: result?.checks
+    })),
+    null,
+    2
+  );
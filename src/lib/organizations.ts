@@ -0,0 +1,179 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { ApiKeyName } from '@shared/types';
+
+// Mirrors the role check in the organizations migration, most access first.
+export const organizationRoles = ['owner', 'admin', 'analyst', 'viewer'] as const;
+
+export type OrganizationRole = typeof organizationRoles[number];
+
+export const organizationRoleDetails: Record<OrganizationRole, { label: string; description: string }> = {
+  owner: { label: 'Owner', description: 'Everything an admin can do, plus managing owners and deleting the organization' },
+  admin: { label: 'Admin', description: 'Manages shared API keys and members' },
+  analyst: { label: 'Analyst', description: 'Scans with the shared keys; scans are shared with the organization' },
+  viewer: { label: 'Viewer', description: "Reads the organization's scans" }
+};
+
+// The database enforces these too; the UI only uses them to hide controls.
+export const canManageOrganization = (role: OrganizationRole) => role === 'owner' || role === 'admin';
+
+export const canUseSharedKeys = (role: OrganizationRole) => role !== 'viewer';
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+export interface OrganizationMember {
+  userId: string;
+  email: string;
+  role: OrganizationRole;
+  joinedAt: string;
+}
+
+// An invitation as the organization's admins see it.
+export interface OrganizationInvitation {
+  id: string;
+  email: string;
+  role: OrganizationRole;
+  invitedAt: string;
+}
+
+// An invitation waiting for the signed-in user.
+export interface PendingInvitation {
+  id: string;
+  organizationId: string;
+  organizationName: string;
+  role: OrganizationRole;
+  invitedAt: string;
+}
+
+// A user belongs to at most one organization.
+export const fetchOrganization = async (userId: string): Promise<Organization | null> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('role, organizations(id, name)')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data?.organizations) return null;
+  return { id: data.organizations.id, name: data.organizations.name, role: data.role as OrganizationRole };
+};
+
+export const createOrganization = async (name: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_organization', { org_name: name.trim() });
+  if (error) throw error;
+  return data;
+};
+
+export const deleteOrganization = async (organizationId: string) => {
+  const { error } = await supabase.from('organizations').delete().eq('id', organizationId);
+  if (error) throw error;
+};
+
+export const fetchOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase.rpc('list_organization_members', { org: organizationId });
+  if (error) throw error;
+  return (data ?? []).map(member => ({
+    userId: member.user_id,
+    email: member.email,
+    role: member.role as OrganizationRole,
+    joinedAt: member.joined_at
+  }));
+};
+
+// The person joins only once they accept, so anyone can be invited whether
+// or not they have an account yet.
+export const inviteOrganizationMember = async (organizationId: string, email: string, role: OrganizationRole) => {
+  const { error } = await supabase.rpc('invite_organization_member', {
+    org: organizationId,
+    member_email: email.trim(),
+    member_role: role
+  });
+  if (error) throw error;
+};
+
+// Only owners and admins can read these.
+export const fetchOrganizationInvitations = async (organizationId: string): Promise<OrganizationInvitation[]> => {
+  const { data, error } = await supabase
+    .from('organization_invitations')
+    .select('id, email, role, created_at')
+    .eq('organization_id', organizationId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data ?? []).map(invitation => ({
+    id: invitation.id,
+    email: invitation.email,
+    role: invitation.role as OrganizationRole,
+    invitedAt: invitation.created_at
+  }));
+};
+
+// Matched against the user's confirmed email address.
+export const fetchPendingInvitations = async (): Promise<PendingInvitation[]> => {
+  const { data, error } = await supabase.rpc('list_my_organization_invitations');
+  if (error) throw error;
+  return (data ?? []).map(invitation => ({
+    id: invitation.id,
+    organizationId: invitation.organization_id,
+    organizationName: invitation.organization_name,
+    role: invitation.role as OrganizationRole,
+    invitedAt: invitation.invited_at
+  }));
+};
+
+export const acceptOrganizationInvitation = async (invitationId: string) => {
+  const { error } = await supabase.rpc('accept_organization_invitation', { invitation: invitationId });
+  if (error) throw error;
+};
+
+// Declines an invitation, or withdraws one as an owner or admin.
+export const deleteOrganizationInvitation = async (invitationId: string) => {
+  const { error } = await supabase.rpc('delete_organization_invitation', { invitation: invitationId });
+  if (error) throw error;
+};
+
+export const updateOrganizationMemberRole = async (organizationId: string, userId: string, role: OrganizationRole) => {
+  const { error } = await supabase.rpc('update_organization_member_role', {
+    org: organizationId,
+    member: userId,
+    member_role: role
+  });
+  if (error) throw error;
+};
+
+// Also how a member leaves, with their own id.
+export const removeOrganizationMember = async (organizationId: string, userId: string) => {
+  const { error } = await supabase.rpc('remove_organization_member', { org: organizationId, member: userId });
+  if (error) throw error;
+};
+
+// Last four characters of each shared key. Only edge functions decrypt them.
+export const fetchOrganizationApiKeyHints = async (
+  organizationId: string
+): Promise<Partial<Record<ApiKeyName, string>>> => {
+  const { data, error } = await supabase
+    .from('organization_api_keys')
+    .select('key_hints')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data?.key_hints ?? {}) as Partial<Record<ApiKeyName, string>>;
+};
+
+export const saveOrganizationApiKey = async (organizationId: string, name: ApiKeyName, value: string) => {
+  const { error } = await supabase.rpc('set_organization_api_key', {
+    org: organizationId,
+    key_name: name,
+    key_value: value.trim()
+  });
+  if (error) throw error;
+};
+
+export const deleteOrganizationApiKey = async (organizationId: string, name: ApiKeyName) => {
+  const { error } = await supabase.rpc('delete_organization_api_key', { org: organizationId, key_name: name });
+  if (error) throw error;
+};
@@ -0,0 +1,31 @@
+import { Eye, Globe, Lock, Network, Shield, type LucideIcon } from 'lucide-react';
+import type { OverallRisk, ProviderCategory, ProviderDefinition, ProviderOutcomeStatus } from '@shared/types';
+
+// Progress of a single provider while a scan is streaming.
+export type ProviderRunState = 'queued' | 'running' | ProviderOutcomeStatus;
+
+interface ProviderAppearance {
+  icon: LucideIcon;
+  color: string;
+}
+
+const categoryAppearance: Record<ProviderCategory, ProviderAppearance> = {
+  reputation: { icon: Shield, color: 'purple' },
+  analysis: { icon: Globe, color: 'blue' },
+  sandbox: { icon: Eye, color: 'amber' },
+  network: { icon: Network, color: 'indigo' },
+  local: { icon: Lock, color: 'green' }
+};
+
+export const getProviderAppearance = (provider: ProviderDefinition): ProviderAppearance =>
+  categoryAppearance[provider.category];
+
+// Badge colors for a scan's overall verdict in lists and tables.
+// Shown instead of a risk level for scans where no check answered.
+export const noVerdictBadgeClasses = 'bg-slate-100 text-slate-700 border-slate-200 dark:bg-slate-800/40 dark:text-slate-300 dark:border-slate-700';
+
+export const riskBadgeClasses: Record<OverallRisk, string> = {
+  HIGH: 'bg-red-100 text-red-800 border-red-200 dark:bg-red-900/20 dark:text-red-400 dark:border-red-800',
+  MEDIUM: 'bg-amber-100 text-amber-800 border-amber-200 dark:bg-amber-900/20 dark:text-amber-400 dark:border-amber-800',
+  LOW: 'bg-green-100 text-green-800 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800'
+};
@@ -0,0 +1,178 @@
+import QrScanner from 'qr-scanner';
+
+export const REMOTE_DECODER_STORAGE_KEY = 'qr-shield-remote-decoder';
+
+const REMOTE_DECODER_URL = 'https://api.qrserver.com/v1/read-qr-code/';
+
+export type QrDecodeSource = 'local' | 'remote';
+
+export interface DetectedQrCode {
+  data: string;
+  // Corners in the coordinates of the decoded image; empty when the remote
+  // decoder found the code.
+  cornerPoints: { x: number; y: number }[];
+}
+
+export interface QrDecodeResult {
+  codes: DetectedQrCode[];
+  // Size of the image the corner points refer to.
+  width: number;
+  height: number;
+  source: QrDecodeSource;
+}
+
+// Limits advertised on the upload area.
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg'];
+
+// Returns why an upload cannot be scanned, or null when it is acceptable.
+export const validateQrImage = (file: File): string | null => {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    return `${file.type || 'This file type'} is not supported - upload a PNG or JPG image`;
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `${(file.size / 1024 / 1024).toFixed(1)} MB is over the 10 MB limit`;
+  }
+  return null;
+};
+
+// A poster rarely carries more than a couple of codes; the cap bounds the
+// work on noisy images.
+const MAX_CODES_PER_IMAGE = 8;
+const MAX_IMAGE_DIMENSION = 2048;
+
+// One engine for the whole session: qr-scanner runs the decoder in a Web
+// Worker, or uses the native BarcodeDetector where the browser has one.
+let qrEngine: ReturnType<typeof QrScanner.createQrEngine> | null = null;
+const getQrEngine = () => (qrEngine ??= QrScanner.createQrEngine());
+
+// Uploading images to api.qrserver.com sends the code's contents to a third
+// party, so it only happens when the user has switched it on in Settings.
+export const isRemoteDecoderEnabled = (): boolean =>
+  localStorage.getItem(REMOTE_DECODER_STORAGE_KEY) === 'true';
+
+export const setRemoteDecoderEnabled = (enabled: boolean) => {
+  localStorage.setItem(REMOTE_DECODER_STORAGE_KEY, String(enabled));
+};
+
+const drawToCanvas = async (image: Blob | HTMLVideoElement): Promise<HTMLCanvasElement> => {
+  const source = image instanceof Blob ? await createImageBitmap(image) : image;
+  const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.width;
+  const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.height;
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(sourceWidth, sourceHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(sourceWidth * scale);
+  canvas.height = Math.round(sourceHeight * scale);
+  canvas.getContext('2d')?.drawImage(source, 0, 0, canvas.width, canvas.height);
+  if (source instanceof ImageBitmap) source.close();
+  return canvas;
+};
+
+const scanCanvas = async (canvas: HTMLCanvasElement, engine: Awaited<ReturnType<typeof getQrEngine>>) => {
+  try {
+    return await QrScanner.scanImage(canvas, { qrEngine: engine, returnDetailedScanResult: true });
+  } catch {
+    // qr-scanner downsizes images to 400px first, which loses small codes in
+    // large photos. Retry at full resolution before giving up.
+    try {
+      return await QrScanner.scanImage(canvas, {
+        qrEngine: engine,
+        disallowCanvasResizing: true,
+        returnDetailedScanResult: true
+      });
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Paints over a found code, with a margin for its quiet zone, so the next
+// pass finds the one underneath or beside it.
+const maskCode = (canvas: HTMLCanvasElement, { cornerPoints }: DetectedQrCode) => {
+  const context = canvas.getContext('2d');
+  if (!context || cornerPoints.length === 0) return;
+
+  const centerX = cornerPoints.reduce((sum, point) => sum + point.x, 0) / cornerPoints.length;
+  const centerY = cornerPoints.reduce((sum, point) => sum + point.y, 0) / cornerPoints.length;
+  context.fillStyle = '#ffffff';
+  context.beginPath();
+  cornerPoints.forEach((point, index) => {
+    const x = centerX + (point.x - centerX) * 1.2;
+    const y = centerY + (point.y - centerY) * 1.2;
+    if (index === 0) context.moveTo(x, y);
+    else context.lineTo(x, y);
+  });
+  context.closePath();
+  context.fill();
+};
+
+// qr-scanner reports one code per scan, so every code found is masked out
+// and the image scanned again until nothing more turns up.
+const decodeLocally = async (image: Blob | HTMLVideoElement): Promise<Omit<QrDecodeResult, 'source'>> => {
+  const engine = await getQrEngine();
+  const canvas = await drawToCanvas(image);
+  const codes: DetectedQrCode[] = [];
+
+  while (codes.length < MAX_CODES_PER_IMAGE) {
+    const result = await scanCanvas(canvas, engine);
+    if (!result) break;
+
+    const code = { data: result.data, cornerPoints: result.cornerPoints.map(({ x, y }) => ({ x, y })) };
+    codes.push(code);
+    maskCode(canvas, code);
+  }
+
+  return { codes, width: canvas.width, height: canvas.height };
+};
+
+const decodeRemotely = async (image: Blob): Promise<string> => {
+  const formData = new FormData();
+  formData.append('file', image);
+
+  const response = await fetch(REMOTE_DECODER_URL, { method: 'POST', body: formData });
+  if (!response.ok) {
+    throw new Error('Failed to scan QR code');
+  }
+
+  const result = await response.json();
+  const symbol = result?.[0]?.symbol?.[0];
+  if (!symbol) {
+    throw new Error('Invalid response format from QR scanning service');
+  }
+  if (symbol.error) {
+    throw new Error(symbol.error);
+  }
+  if (!symbol.data) {
+    throw new Error('No QR code data found in image');
+  }
+  return symbol.data;
+};
+
+// Decodes every QR code in an image or the current camera frame, in the
+// browser. The remote decoder is only tried for uploads when local decoding
+// finds nothing and the user has opted in.
+export const decodeQrImage = async (
+  image: Blob | HTMLVideoElement,
+  { allowRemote = isRemoteDecoderEnabled() }: { allowRemote?: boolean } = {}
+): Promise<QrDecodeResult> => {
+  const local = await decodeLocally(image).catch((error) => {
+    console.warn('Local QR decoding failed:', error);
+    return null;
+  });
+  if (local && local.codes.length > 0) {
+    return { ...local, source: 'local' };
+  }
+
+  if (!allowRemote || !(image instanceof Blob)) {
+    throw new Error('No QR code found in the image. Try a sharper, well-lit photo with the whole code visible.');
+  }
+
+  const data = await decodeRemotely(image);
+  return { codes: [{ data, cornerPoints: [] }], width: local?.width ?? 0, height: local?.height ?? 0, source: 'remote' };
+};
+
+// Distinct contents among the detected codes. More than one on a single
+// poster is the signature of a sticker placed over the original code.
+export const getDistinctCodes = (codes: DetectedQrCode[]): string[] =>
+  [...new Set(codes.map(code => code.data.trim()))];
@@ -0,0 +1,110 @@
+import { assessRisk } from '@shared/scoring';
+import type { CheckStatus, OverallRisk, ScanTarget, SecurityCheck } from '@shared/types';
+
+export type CheckChange = 'unchanged' | 'worse' | 'better' | 'changed' | 'added' | 'removed';
+
+export interface CheckSnapshot {
+  status: CheckStatus;
+  details?: string;
+  // Engine detections, for providers that report per-engine verdicts.
+  positives?: number;
+  totalEngines?: number;
+}
+
+export interface CheckDiff {
+  key: string;
+  name: string;
+  target?: ScanTarget;
+  previous?: CheckSnapshot;
+  current?: CheckSnapshot;
+  change: CheckChange;
+}
+
+export interface ScanDiff {
+  previous: { overallRisk: OverallRisk; score: number };
+  current: { overallRisk: OverallRisk; score: number };
+  riskChange: 'worse' | 'better' | 'unchanged';
+  checks: CheckDiff[];
+}
+
+// Timeouts, errors, skipped and pending checks carry no verdict, so they rank with passes.
+const statusSeverity: Record<CheckStatus, number> = {
+  pending: 0,
+  timeout: 0,
+  error: 0,
+  skipped: 0,
+  passed: 0,
+  warning: 1,
+  failed: 2
+};
+
+const riskSeverity: Record<OverallRisk, number> = { LOW: 0, MEDIUM: 1, HIGH: 2 };
+
+// Changes that need attention sort first.
+const changeOrder: Record<CheckChange, number> = {
+  worse: 0,
+  added: 1,
+  changed: 2,
+  removed: 3,
+  better: 4,
+  unchanged: 5
+};
+
+const checkKey = (check: SecurityCheck) => `${check.providerId ?? check.name}:${check.target ?? 'original'}:${check.name}`;
+
+const snapshot = (check: SecurityCheck): CheckSnapshot => ({
+  status: check.status,
+  details: check.details,
+  ...(check.engines && { positives: check.engines.positives, totalEngines: check.engines.total })
+});
+
+const compare = (previous: CheckSnapshot, current: CheckSnapshot): CheckChange => {
+  const severity = statusSeverity[current.status] - statusSeverity[previous.status];
+  if (severity > 0) return 'worse';
+  if (severity < 0) return 'better';
+
+  const detections = (current.positives ?? 0) - (previous.positives ?? 0);
+  if (detections > 0) return 'worse';
+  if (detections < 0) return 'better';
+
+  return current.status === previous.status ? 'unchanged' : 'changed';
+};
+
+// Pairs up the checks of a stored scan and a fresh one by provider, target
+// and name, and reports how each verdict and the overall risk moved. The
+// stored row's own verdict, when it has one, is the baseline for the risk.
+export const diffScans = (
+  previousChecks: SecurityCheck[],
+  currentChecks: SecurityCheck[],
+  storedRisk?: OverallRisk | null
+): ScanDiff => {
+  const previousByKey = new Map(previousChecks.map(check => [checkKey(check), check]));
+  const currentByKey = new Map(currentChecks.map(check => [checkKey(check), check]));
+  const keys = [...new Set([...previousByKey.keys(), ...currentByKey.keys()])];
+
+  const checks = keys.map((key): CheckDiff => {
+    const previous = previousByKey.get(key);
+    const current = currentByKey.get(key);
+    const check = (current ?? previous) as SecurityCheck;
+    return {
+      key,
+      name: check.name,
+      target: check.target,
+      ...(previous && { previous: snapshot(previous) }),
+      ...(current && { current: snapshot(current) }),
+      change: !previous ? 'added' : !current ? 'removed' : compare(snapshot(previous), snapshot(current))
+    };
+  }).sort((a, b) => changeOrder[a.change] - changeOrder[b.change]);
+
+  const before = assessRisk(previousChecks);
+  const after = assessRisk(currentChecks);
+  const previousRisk = storedRisk ?? before.overallRisk;
+  const riskDelta = riskSeverity[after.overallRisk] - riskSeverity[previousRisk];
+
+  return {
+    previous: { overallRisk: previousRisk, score: before.score },
+    current: { overallRisk: after.overallRisk, score: after.score },
+    riskChange: riskDelta > 0 ? 'worse' : riskDelta < 0 ? 'better' : 'unchanged',
+    checks
+  };
+};
@@ -0,0 +1,142 @@
+import { supabase } from '@/integrations/supabase/client';
+import { SCREENSHOT_BUCKET, SCREENSHOT_URL_TTL_SECONDS, getScreenshotPaths } from '@shared/screenshots';
+import type { OverallRisk, SecurityCheck } from '@shared/types';
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export interface ScanHistoryEntry {
+  id: string;
+  userId: string | null;
+  organizationId: string | null;
+  qrData: string;
+  overallRisk: OverallRisk | null;
+  // False when no check answered; overallRisk then means nothing.
+  verdict: boolean;
+  checks: SecurityCheck[];
+  scannedAt: string;
+}
+
+export interface ScanHistoryFilters {
+  search?: string;
+  // `none` lists scans without a verdict.
+  risk?: OverallRisk | 'none' | 'all';
+  // Inclusive calendar days in the user's time zone, as yyyy-mm-dd.
+  from?: string;
+  to?: string;
+  // Lists the organization's scans, by any member, instead of the user's own.
+  organizationId?: string;
+  page: number;
+}
+
+type ScanRow = {
+  id: string;
+  user_id: string | null;
+  organization_id: string | null;
+  qr_data: string;
+  overall_risk: string | null;
+  verdict: boolean;
+  security_checks: unknown;
+  scan_timestamp: string;
+};
+
+const toEntry = (row: ScanRow): ScanHistoryEntry => ({
+  id: row.id,
+  userId: row.user_id,
+  organizationId: row.organization_id,
+  qrData: row.qr_data,
+  overallRisk: row.overall_risk as OverallRisk | null,
+  verdict: row.verdict,
+  // Rows written before checks were stored as an array default to `{}`.
+  checks: Array.isArray(row.security_checks) ? row.security_checks as SecurityCheck[] : [],
+  scannedAt: row.scan_timestamp
+});
+
+// ilike treats % and _ as wildcards; search for them literally.
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, match => `\\${match}`);
+
+const startOfDay = (day: string) => new Date(`${day}T00:00:00`);
+
+const scanColumns = 'id, user_id, organization_id, qr_data, overall_risk, verdict, security_checks, scan_timestamp';
+
+// One page of the user's past scans, or their organization's, newest first,
+// plus the total number of matching rows for the pager.
+export const fetchScanHistory = async (
+  userId: string,
+  { search, risk, from, to, organizationId, page }: ScanHistoryFilters
+): Promise<{ entries: ScanHistoryEntry[]; total: number }> => {
+  let query = supabase
+    .from('qr_scan_results')
+    .select(scanColumns, { count: 'exact' });
+
+  query = organizationId ? query.eq('organization_id', organizationId) : query.eq('user_id', userId);
+
+  if (search?.trim()) query = query.ilike('qr_data', `%${escapeLike(search.trim())}%`);
+  if (risk === 'none') query = query.eq('verdict', false);
+  else if (risk && risk !== 'all') query = query.eq('overall_risk', risk).eq('verdict', true);
+  if (from) query = query.gte('scan_timestamp', startOfDay(from).toISOString());
+  if (to) {
+    const end = startOfDay(to);
+    end.setDate(end.getDate() + 1);
+    query = query.lt('scan_timestamp', end.toISOString());
+  }
+
+  const offset = page * HISTORY_PAGE_SIZE;
+  const { data, error, count } = await query
+    .order('scan_timestamp', { ascending: false })
+    .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+  if (error) throw error;
+  return { entries: (data ?? []).map(toEntry), total: count ?? 0 };
+};
+
+// Stored checks only keep the path of their screenshot; sign it for display.
+// Without a signed URL the screenshot is simply not shown.
+const withSignedScreenshots = async (checks: SecurityCheck[]): Promise<SecurityCheck[]> => {
+  const paths = getScreenshotPaths(checks);
+  if (paths.length === 0) return checks;
+
+  const { data, error } = await supabase.storage
+    .from(SCREENSHOT_BUCKET)
+    .createSignedUrls(paths, SCREENSHOT_URL_TTL_SECONDS);
+  if (error) {
+    console.error('Failed to sign screenshot URLs:', error);
+    return checks;
+  }
+
+  const urls = new Map(data.filter(entry => entry.signedUrl).map(entry => [entry.path, entry.signedUrl]));
+  const sign = <T extends { screenshot?: string; screenshotPath?: string }>(item: T): T => (
+    item.screenshotPath && urls.has(item.screenshotPath) ? { ...item, screenshot: urls.get(item.screenshotPath) } : item
+  );
+  return checks.map(check => {
+    const signed = sign(check);
+    return check.captures ? { ...signed, captures: check.captures.map(sign) } : signed;
+  });
+};
+
+export const fetchScanResult = async (id: string): Promise<ScanHistoryEntry | null> => {
+  const { data, error } = await supabase
+    .from('qr_scan_results')
+    .select(scanColumns)
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const entry = toEntry(data);
+  return { ...entry, checks: await withSignedScreenshots(entry.checks) };
+};
+
+// Removes one of the user's own scans. Storage only lets owners delete
+// screenshots, and those of the user's scans are theirs; any left behind are
+// swept up server-side.
+export const deleteScanResult = async (entry: ScanHistoryEntry) => {
+  const paths = getScreenshotPaths(entry.checks);
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from(SCREENSHOT_BUCKET).remove(paths);
+    if (error) console.error('Failed to delete screenshots:', error);
+  }
+
+  const { error } = await supabase.from('qr_scan_results').delete().eq('id', entry.id);
+  if (error) throw error;
+};
@@ -0,0 +1,40 @@
+import type { ProtectedBrand, ScanOptions } from '@shared/types';
+
+export const SCAN_OPTIONS_STORAGE_KEY = 'qr-shield-scan-options';
+
+export const loadScanOptions = (): ScanOptions => {
+  const saved = localStorage.getItem(SCAN_OPTIONS_STORAGE_KEY);
+  if (!saved) return {};
+
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error('Failed to parse saved scan options:', error);
+    return {};
+  }
+};
+
+export const saveScanOptions = (options: ScanOptions) => {
+  localStorage.setItem(SCAN_OPTIONS_STORAGE_KEY, JSON.stringify(options));
+};
+
+// One brand per line in the form "Brand Name = domain.com, other-domain.com".
+export const parseProtectedBrands = (text: string): ProtectedBrand[] =>
+  text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.includes('='))
+    .map(line => {
+      const [name, domains] = line.split('=', 2);
+      return {
+        name: name.trim(),
+        domains: domains
+          .split(',')
+          .map(domain => domain.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/.*$/, ''))
+          .filter(Boolean)
+      };
+    })
+    .filter(brand => brand.name && brand.domains.length > 0);
+
+export const formatProtectedBrands = (brands: ProtectedBrand[] = []): string =>
+  brands.map(brand => `${brand.name} = ${brand.domains.join(', ')}`).join('\n');
@@ -0,0 +1,93 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { redactQrData } from '@shared/payload';
+import { withoutSignedScreenshots } from '@shared/screenshots';
+import type { RiskAssessment, ScanEvent, ScanOptions, ScanResult, SecurityCheck } from '@shared/types';
+
+// API keys are not part of the request: security-scan looks up the signed-in
+// caller's keys itself.
+export interface SecurityScanRequest {
+  url: string;
+  options?: ScanOptions;
+  // Skip verdicts cached from recent scans of the same URL.
+  forceRefresh?: boolean;
+}
+
+const parseEvent = (message: string): ScanEvent | null => {
+  const data = message
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+
+  return data ? JSON.parse(data) : null;
+};
+
+// Calls the security-scan edge function in streaming mode, forwarding every
+// progress event to `onEvent` and resolving with the final scan result.
+export const streamSecurityScan = async (
+  request: SecurityScanRequest,
+  onEvent: (event: ScanEvent) => void = () => {}
+): Promise<ScanResult> => {
+  const { data, error } = await supabase.functions.invoke('security-scan', {
+    body: request,
+    headers: { Accept: 'text/event-stream' }
+  });
+
+  if (error) throw error;
+
+  // Older deployments answer with plain JSON instead of an event stream.
+  if (!(data instanceof Response)) return data as ScanResult;
+  if (!data.body) throw new Error('Security scan returned an empty stream');
+
+  const reader = data.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let result: ScanResult | null = null;
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const messages = buffer.split('\n\n');
+    buffer = messages.pop() ?? '';
+
+    for (const message of messages) {
+      const event = parseEvent(message);
+      if (!event) continue;
+      if (event.type === 'error') throw new Error(event.message);
+
+      onEvent(event);
+      if (event.type === 'complete') {
+        const { type, ...scanResult } = event;
+        result = scanResult;
+      }
+    }
+  }
+
+  if (!result) throw new Error('Security scan ended before completing');
+  return result;
+};
+
+// Adds a finished scan to the user's history. Organization members can read
+// it too, so Wi-Fi passwords and authenticator secrets are left out.
+export const saveScanResult = async (
+  userId: string,
+  data: string,
+  checks: SecurityCheck[],
+  { overallRisk, verdict }: Pick<RiskAssessment, 'overallRisk' | 'verdict'>
+) => {
+  const { error } = await supabase
+    .from('qr_scan_results')
+    .insert({
+      qr_data: redactQrData(data),
+      security_checks: withoutSignedScreenshots(checks) as unknown as Json,
+      overall_risk: overallRisk,
+      verdict,
+      user_id: userId
+    });
+
+  if (error) {
+    console.error('Failed to save scan result:', error);
+  }
+};
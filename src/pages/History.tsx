@@ -0,0 +1,592 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger
+} from '@/components/ui/alert-dialog';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious
+} from '@/components/ui/pagination';
+import { ArrowLeft, History as HistoryIcon, Loader2, LogIn, RefreshCw, Search, Trash2, X } from 'lucide-react';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { SecurityAnalyzer } from '@/components/SecurityAnalyzer';
+import { PrecautionarySteps } from '@/components/PrecautionarySteps';
+import { QrPayloadView } from '@/components/QrPayloadView';
+import { ScanDiffView } from '@/components/ScanDiffView';
+import { noVerdictBadgeClasses, riskBadgeClasses, type ProviderRunState } from '@/lib/providers';
+import { fetchOrganization, fetchOrganizationMembers, type Organization } from '@/lib/organizations';
+import { diffScans } from '@/lib/scanDiff';
+import {
+  HISTORY_PAGE_SIZE,
+  deleteScanResult,
+  fetchScanHistory,
+  fetchScanResult,
+  type ScanHistoryEntry
+} from '@/lib/scanHistory';
+import { loadScanOptions } from '@/lib/scanOptions';
+import { saveScanResult, streamSecurityScan } from '@/lib/securityScan';
+import { parseQrPayload, payloadTypeLabels } from '@shared/payload';
+import { analyzeQrPayload } from '@shared/payloadChecks';
+import { getProviderDefinition } from '@shared/providers';
+import { assessRisk } from '@shared/scoring';
+import type { OverallRisk, ProviderDefinition, SecurityCheck } from '@shared/types';
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Page numbers around the current one, with gaps marked as null.
+const getPageWindow = (page: number, pageCount: number): (number | null)[] => {
+  const pages = [...new Set([0, page - 1, page, page + 1, pageCount - 1])]
+    .filter(value => value >= 0 && value < pageCount)
+    .sort((a, b) => a - b);
+  return pages.flatMap((value, index) => (index > 0 && value - pages[index - 1] > 1 ? [null, value] : [value]));
+};
+
+interface ScanDetailProps {
+  entry: ScanHistoryEntry;
+  userId: string;
+  onDeleted: () => void;
+}
+
+const ScanDetail = ({ entry, userId, onDeleted }: ScanDetailProps) => {
+  const [showAllEngines, setShowAllEngines] = useState(false);
+  const [isRescanning, setIsRescanning] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [rescanStep, setRescanStep] = useState('');
+  const [rescanChecks, setRescanChecks] = useState<SecurityCheck[] | null>(null);
+  const payload = useMemo(() => parseQrPayload(entry.qrData), [entry.qrData]);
+  const diff = useMemo(
+    () => (rescanChecks ? diffScans(entry.checks, rescanChecks, entry.overallRisk) : null),
+    [entry, rescanChecks]
+  );
+
+  // Stored scans keep their checks but not the run itself, so the provider
+  // tiles are rebuilt from the checks and shown as finished.
+  const providers = useMemo(
+    () => [...new Set(entry.checks.map(check => check.providerId).filter((id): id is string => Boolean(id)))]
+      .map(getProviderDefinition)
+      .filter((provider): provider is ProviderDefinition => Boolean(provider)),
+    [entry.checks]
+  );
+  const providerStates = useMemo(
+    () => Object.fromEntries(providers.map(provider => [provider.id, 'completed'])) as Record<string, ProviderRunState>,
+    [providers]
+  );
+
+  // Runs the same checks again so verdicts that changed since the stored
+  // scan stand out. Cached verdicts would hide those changes, so every
+  // provider is asked again. The fresh result is saved as a new history entry.
+  const handleRescan = async () => {
+    setIsRescanning(true);
+    setRescanStep('Starting a new scan...');
+    const scanOptions = loadScanOptions();
+
+    try {
+      const checks = payload.url
+        ? (await streamSecurityScan(
+            { url: payload.url, options: scanOptions, forceRefresh: true },
+            (event) => {
+              if (event.type === 'started') {
+                setRescanStep(`Checking with ${getProviderDefinition(event.providerId)?.name ?? event.providerId}...`);
+              }
+            }
+          )).results
+        : analyzeQrPayload(payload, scanOptions.protectedBrands);
+
+      setRescanChecks(checks);
+      await saveScanResult(userId, entry.qrData, checks, assessRisk(checks));
+      toast({
+        title: "Re-scan Complete",
+        description: "Compare the new verdicts with the stored scan below. The new result was added to your history."
+      });
+    } catch (error) {
+      console.error('Re-scan failed:', error);
+      toast({
+        title: "Re-scan Failed",
+        description: "Could not reach the security scan service. Please try again.",
+        variant: "destructive"
+      });
+    }
+
+    setIsRescanning(false);
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await deleteScanResult(entry);
+      toast({ title: "Scan Deleted", description: "The scan and its screenshots were removed from your history" });
+      onDeleted();
+    } catch (error) {
+      console.error('Failed to delete scan:', error);
+      toast({ title: "Delete Failed", description: "The scan could not be deleted. Please try again.", variant: "destructive" });
+      setIsDeleting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 lg:space-y-8">
+      {diff && <ScanDiffView diff={diff} storedAt={entry.scannedAt} />}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
+        <div className="space-y-6">
+          <Card className="border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="text-lg sm:text-xl text-gray-800 dark:text-gray-100">Scanned QR Code Data</CardTitle>
+                <CardDescription>Scanned {formatTimestamp(entry.scannedAt)}</CardDescription>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <Button variant="outline" onClick={handleRescan} disabled={isRescanning || isDeleting} className="rounded-xl">
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isRescanning ? 'animate-spin' : ''}`} />
+                  {isRescanning ? 'Scanning...' : 'Re-scan'}
+                </Button>
+                {/* Organization members can open each other's scans but only delete their own */}
+                {entry.userId === userId && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="outline" size="icon" disabled={isRescanning || isDeleting} className="rounded-xl">
+                        <Trash2 className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this scan?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The stored results and sandbox screenshots are removed permanently.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <QrPayloadView payload={payload} />
+              {isRescanning && <p className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">{rescanStep}</p>}
+            </CardContent>
+          </Card>
+          {entry.checks.length > 0 && (
+            <PrecautionarySteps overallRisk={entry.overallRisk ?? assessRisk(entry.checks).overallRisk} qrData={entry.qrData} />
+          )}
+        </div>
+        <div className="space-y-6">
+          <SecurityAnalyzer
+            isScanning={false}
+            scanProgress={100}
+            scanningStep=""
+            securityChecks={entry.checks}
+            providers={providers}
+            providerStates={providerStates}
+            showAllEngines={showAllEngines}
+            onToggleEngines={() => setShowAllEngines(!showAllEngines)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const History = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { scanId } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Filters live in the query string so the back button from a detail view
+  // returns to the same page of results.
+  const search = searchParams.get('q') ?? '';
+  const risk = (searchParams.get('risk') as OverallRisk | 'none' | null) ?? 'all';
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+  const page = Math.max(Number(searchParams.get('page')) || 0, 0);
+  const scope = searchParams.get('scope') === 'organization' ? 'organization' : 'mine';
+
+  // undefined while loading, null when the user has no organization
+  const [organization, setOrganization] = useState<Organization | null | undefined>(undefined);
+  const [memberEmails, setMemberEmails] = useState<Record<string, string>>({});
+  const [searchText, setSearchText] = useState(search);
+  const [entries, setEntries] = useState<ScanHistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [detail, setDetail] = useState<ScanHistoryEntry | null>(null);
+
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams((prev) => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => (value ? next.set(key, value) : next.delete(key)));
+      if (!('page' in changes)) next.delete('page');
+      return next;
+    });
+  };
+
+  // Wait for a pause in typing before querying.
+  useEffect(() => {
+    const query = searchText.trim();
+    if (query === search) return;
+
+    const timer = setTimeout(() => {
+      setSearchParams((prev) => {
+        const next = new URLSearchParams(prev);
+        if (query) next.set('q', query);
+        else next.delete('q');
+        next.delete('page');
+        return next;
+      });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [searchText, search, setSearchParams]);
+
+  useEffect(() => {
+    if (!user) return;
+    let cancelled = false;
+
+    fetchOrganization(user.id)
+      .then(async (current) => {
+        const members = current ? await fetchOrganizationMembers(current.id) : [];
+        if (cancelled) return;
+        setOrganization(current);
+        setMemberEmails(Object.fromEntries(members.map(member => [member.userId, member.email])));
+      })
+      .catch((error) => {
+        console.error('Failed to load organization:', error);
+        if (!cancelled) setOrganization(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Only known once the organization has loaded; the list waits for it.
+  const organizationId = scope === 'organization' ? organization?.id : undefined;
+
+  useEffect(() => {
+    if (!user || scanId) return;
+    if (scope === 'organization' && organization === undefined) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    fetchScanHistory(user.id, { search, risk, from, to, organizationId, page })
+      .then((result) => {
+        if (cancelled) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+      })
+      .catch((error) => {
+        console.error('Failed to load scan history:', error);
+        toast({
+          title: "Could Not Load History",
+          description: "Your past scans could not be retrieved. Please try again.",
+          variant: "destructive"
+        });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, scanId, scope, organization, organizationId, search, risk, from, to, page]);
+
+  useEffect(() => {
+    if (!user || !scanId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    setDetail(null);
+    fetchScanResult(scanId)
+      .then((entry) => {
+        if (cancelled) return;
+        if (!entry) {
+          toast({ title: "Scan Not Found", description: "This scan no longer exists", variant: "destructive" });
+          navigate('/history');
+        }
+        setDetail(entry);
+      })
+      .catch((error) => {
+        console.error('Failed to load scan:', error);
+        toast({ title: "Could Not Load Scan", description: "Please try again", variant: "destructive" });
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, scanId, navigate]);
+
+  const pageCount = Math.ceil(total / HISTORY_PAGE_SIZE);
+  const hasFilters = Boolean(search || risk !== 'all' || from || to);
+
+  const goToPage = (target: number) => (event: React.MouseEvent) => {
+    event.preventDefault();
+    if (target >= 0 && target < pageCount) updateFilters({ page: target > 0 ? String(target) : '' });
+  };
+
+  const renderList = () => (
+    <Card className="border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+      <CardHeader>
+        <div
+          className={`grid grid-cols-1 gap-4 items-end ${
+            organization ? 'md:grid-cols-[10rem,1fr,10rem,auto,auto]' : 'md:grid-cols-[1fr,10rem,auto,auto]'
+          }`}
+        >
+          {organization && (
+            <div className="space-y-2">
+              <Label>Scans</Label>
+              <Select value={scope} onValueChange={(value) => updateFilters({ scope: value === 'organization' ? value : '' })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">Mine</SelectItem>
+                  <SelectItem value="organization">{organization.name}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="history-search">Search</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <Input
+                id="history-search"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder="URL, domain or QR contents"
+                className="pl-9"
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Risk</Label>
+            <Select value={risk} onValueChange={(value) => updateFilters({ risk: value === 'all' ? '' : value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All risks</SelectItem>
+                <SelectItem value="HIGH">High</SelectItem>
+                <SelectItem value="MEDIUM">Medium</SelectItem>
+                <SelectItem value="LOW">Low</SelectItem>
+                <SelectItem value="none">No verdict</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-from">From</Label>
+            <Input id="history-from" type="date" value={from} max={to || undefined} onChange={(e) => updateFilters({ from: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="history-to">To</Label>
+            <Input id="history-to" type="date" value={to} min={from || undefined} onChange={(e) => updateFilters({ to: e.target.value })} />
+          </div>
+        </div>
+        {hasFilters && (
+          <div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchText('');
+                setSearchParams(scope === 'organization' ? new URLSearchParams({ scope }) : new URLSearchParams());
+              }}
+            >
+              <X className="w-4 h-4 mr-1" />
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading && entries.length === 0 ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="py-12 text-center text-gray-500 dark:text-gray-400">
+            {hasFilters
+              ? 'No scans match these filters.'
+              : scope === 'organization'
+                ? 'No shared scans yet. Scans by analysts, admins and owners show up here.'
+                : 'No scans yet. Scans you run while signed in show up here.'}
+          </p>
+        ) : (
+          <div className={`rounded-2xl border border-gray-200 dark:border-gray-700 ${isLoading ? 'opacity-60' : ''}`}>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Scanned</TableHead>
+                  {scope === 'organization' && <TableHead>Scanned By</TableHead>}
+                  <TableHead>QR Code</TableHead>
+                  <TableHead>Risk</TableHead>
+                  <TableHead className="text-right">Flagged</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const payload = parseQrPayload(entry.qrData);
+                  return (
+                    <TableRow
+                      key={entry.id}
+                      onClick={() => navigate({ pathname: `/history/${entry.id}`, search: searchParams.toString() })}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="whitespace-nowrap text-sm">{formatTimestamp(entry.scannedAt)}</TableCell>
+                      {scope === 'organization' && (
+                        <TableCell className="text-sm">
+                          {entry.userId === user?.id
+                            ? 'You'
+                            : (entry.userId && memberEmails[entry.userId]) ?? 'Former member'}
+                        </TableCell>
+                      )}
+                      <TableCell className="max-w-md">
+                        <p className="font-mono text-xs truncate" title={entry.qrData}>{payload.url ?? entry.qrData}</p>
+                        {payload.type !== 'url' && <p className="text-xs text-gray-500">{payloadTypeLabels[payload.type]}</p>}
+                      </TableCell>
+                      <TableCell>
+                        {!entry.verdict ? (
+                          <Badge className={`${noVerdictBadgeClasses} border`}>NO VERDICT</Badge>
+                        ) : entry.overallRisk && (
+                          <Badge className={`${riskBadgeClasses[entry.overallRisk]} border`}>{entry.overallRisk}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {entry.checks.filter(check => check.status !== 'passed').length} / {entry.checks.length}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {pageCount > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={goToPage(page - 1)}
+                  aria-disabled={page === 0}
+                  className={page === 0 ? 'pointer-events-none opacity-50' : ''}
+                />
+              </PaginationItem>
+              {getPageWindow(page, pageCount).map((value, index) => (
+                <PaginationItem key={value ?? `gap-${index}`}>
+                  {value === null ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink href="#" isActive={value === page} onClick={goToPage(value)}>
+                      {value + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={goToPage(page + 1)}
+                  aria-disabled={page >= pageCount - 1}
+                  className={page >= pageCount - 1 ? 'pointer-events-none opacity-50' : ''}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+        {total > 0 && (
+          <p className="text-center text-xs text-gray-500 dark:text-gray-400">
+            {total} scan{total === 1 ? '' : 's'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-900 dark:to-black">
+      <div className={`container mx-auto px-4 py-8 ${scanId ? 'max-w-7xl' : 'max-w-5xl'}`}>
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => (scanId ? navigate({ pathname: '/history', search: searchParams.toString() }) : navigate('/'))}
+            className="rounded-full"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-gradient-to-r from-blue-500 to-purple-600 rounded-xl">
+              <HistoryIcon className="w-6 h-6 text-white" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{scanId ? 'Scan Details' : 'Scan History'}</h1>
+              <p className="text-gray-600 dark:text-gray-400">
+                {scanId
+                  ? 'The stored results of a past scan'
+                  : scope === 'organization' && organization
+                    ? `Scans shared with ${organization.name}`
+                    : 'Every scan you ran while signed in'}
+              </p>
+            </div>
+          </div>
+        </div>
+
+        {authLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+          </div>
+        ) : !user ? (
+          <Card className="border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+            <CardContent className="pt-6 text-center space-y-4">
+              <p className="text-gray-600 dark:text-gray-400">Sign in to see the scans you have saved.</p>
+              <Button onClick={() => navigate('/auth')}>
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign In
+              </Button>
+            </CardContent>
+          </Card>
+        ) : scanId ? (
+          detail ? (
+            <ScanDetail
+              entry={detail}
+              userId={user.id}
+              onDeleted={() => navigate({ pathname: '/history', search: searchParams.toString() })}
+            />
+          ) : (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-blue-500" />
+            </div>
+          )
+        ) : renderList()}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -14,25 +14,29 @@ import {
   LogOut,
   Globe,
   Check,
-  Menu
+  Menu,
+  History
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { QRScanner } from '@/components/QRScanner';
 import { SecurityAnalyzer } from '@/components/SecurityAnalyzer';
 import { PrecautionarySteps } from '@/components/PrecautionarySteps';
+import { QrPayloadView } from '@/components/QrPayloadView';
 import { useTheme } from '@/components/ThemeProvider';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-
-interface SecurityCheck {
-  name: string;
-  status: 'pending' | 'passed' | 'failed' | 'warning';
-  description: string;
-  details?: string;
-  engines?: any;
-  screenshot?: string;
-}
+import { migrateLocalApiKeys } from '@/lib/apiKeys';
+import type { ProviderRunState } from '@/lib/providers';
+import { saveScanResult, streamSecurityScan } from '@/lib/securityScan';
+import { loadScanOptions } from '@/lib/scanOptions';
+import { analyzeBrandImpersonation } from '@shared/brands';
+import { analyzeUrlHeuristics } from '@shared/heuristics';
+import { parseQrPayload, payloadTypeLabels } from '@shared/payload';
+import { analyzeQrPayload } from '@shared/payloadChecks';
+import { getProviderDefinition } from '@shared/providers';
+import { assessRisk } from '@shared/scoring';
+import type { ProviderDefinition, ProviderOutcomeStatus, RedirectChain, RiskAssessment, SecurityCheck } from '@shared/types';
 
 const Index = () => {
   const [qrData, setQrData] = useState<string | null>(null);
@@ -43,85 +47,149 @@ const Index = () => {
   const [reportReady, setReportReady] = useState(false);
   const [showAllEngines, setShowAllEngines] = useState(false);
   const [scanningStep, setScanningStep] = useState('');
+  const [scanProviders, setScanProviders] = useState<ProviderDefinition[]>([]);
+  const [providerStates, setProviderStates] = useState<Record<string, ProviderRunState>>({});
+  const [redirectChain, setRedirectChain] = useState<RedirectChain | null>(null);
   const { theme, setTheme, isDark } = useTheme();
   const { user, loading: authLoading } = useAuth();
   const navigate = useNavigate();
 
+  // Keys saved in the browser by earlier versions move to the account.
+  useEffect(() => {
+    if (!user) return;
+    migrateLocalApiKeys()
+      .then((count) => {
+        if (count > 0) {
+          toast({
+            title: "API Keys Moved to Your Account",
+            description: `${count} key${count === 1 ? '' : 's'} saved in this browser now live encrypted on the server`
+          });
+        }
+      })
+      .catch(error => console.error('Failed to move API keys to the account:', error));
+  }, [user]);
+
+  const qrPayload = useMemo(() => (qrData ? parseQrPayload(qrData) : null), [qrData]);
+
   const handleScanResult = (data: string, source: 'camera' | 'upload' | 'manual') => {
     console.log('Scan result received:', { data, source });
     setQrData(data);
     setScanSource(source);
     setSecurityChecks([]);
+    setRedirectChain(null);
     setReportReady(false);
     setShowAllEngines(false);
-    performSecurityScan(data);
+
+    const payload = parseQrPayload(data);
+    if (payload.url) {
+      performSecurityScan(payload.url, data);
+    } else {
+      analyzePayload(data);
+    }
+  };
+
+  // Save scan result to database if user is authenticated
+  const recordScan = async (data: string, checks: SecurityCheck[], risk: RiskAssessment) => {
+    if (user) await saveScanResult(user.id, data, checks, risk);
+  };
+
+  // Wi-Fi, contact, payment and other non-URL codes never leave the browser;
+  // they get local checks for the action the phone would offer.
+  const analyzePayload = async (data: string) => {
+    const payload = parseQrPayload(data);
+    const checks = analyzeQrPayload(payload, loadScanOptions().protectedBrands);
+
+    setScanProviders([getProviderDefinition('payload')]);
+    setProviderStates({});
+    setSecurityChecks(checks);
+    setScanProgress(100);
+    setReportReady(true);
+
+    toast({
+      title: `${payloadTypeLabels[payload.type]} Detected`,
+      description: "This QR code is not a web link. Review the checks for what it would do on your phone."
+    });
+
+    await recordScan(data, checks, assessRisk(checks));
   };
 
-  const performSecurityScan = async (url: string) => {
+  const performSecurityScan = async (url: string, data: string = url, { forceRefresh = false } = {}) => {
     setIsScanning(true);
     setScanProgress(0);
     setScanningStep('Initializing comprehensive security analysis...');
+    setScanProviders([]);
+    setProviderStates({});
+    setRedirectChain(null);
+
+    const scanOptions = loadScanOptions();
     
     try {
-      // Check if API keys are configured
-      const savedKeys = localStorage.getItem('qr-shield-api-keys');
-      if (!savedKeys) {
-        toast({
-          title: "API Keys Not Configured",
-          description: "Please configure your API keys in Settings first",
-          variant: "destructive"
-        });
-        setIsScanning(false);
-        return;
-      }
-
-      setScanProgress(15);
       setScanningStep('Connecting to threat intelligence networks...');
-      
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      setScanProgress(35);
-      setScanningStep('Analyzing URL with VirusTotal engines...');
-      
-      // Call our security scan edge function
-      const { data, error } = await supabase.functions.invoke('security-scan', {
-        body: { url, apiKeys: JSON.parse(savedKeys) }
-      });
 
-      if (error) {
-        console.error('Security scan error:', error);
-        throw error;
-      }
+      let planned: ProviderDefinition[] = [];
+      let targetCount = 1;
+      let finishedCount = 0;
+      // A provider runs once per target, so its tile settles on the worst
+      // status once every run has finished.
+      const providerOutcomes: Record<string, ProviderOutcomeStatus[]> = {};
+
+      // Call our security scan edge function and follow its progress events
+      const { results, risk, redirectChain: chain } = await streamSecurityScan({ url, options: scanOptions, forceRefresh }, (event) => {
+        switch (event.type) {
+          case 'redirects':
+            setRedirectChain(event.chain);
+            if (event.chain.hops.length > 1) {
+              setScanningStep(`Followed ${event.chain.hops.length - 1} redirect${event.chain.hops.length === 2 ? '' : 's'} to ${event.chain.finalUrl}`);
+            }
+            break;
+          case 'plan':
+            planned = event.providerIds.map(getProviderDefinition).filter(Boolean);
+            targetCount = event.targets.length;
+            setScanProviders(planned);
+            setProviderStates(Object.fromEntries(planned.map(provider => [provider.id, 'queued'])));
+            // Without API keys on the account only the keyless checks run
+            if (planned.every(provider => provider.requiredKeys.length === 0)) {
+              toast({
+                title: "Running Local Checks Only",
+                description: user
+                  ? "Configure API keys in Settings to add threat intelligence lookups"
+                  : "Sign in and add API keys in Settings to add threat intelligence lookups"
+              });
+            }
+            setScanningStep(targetCount > 1
+              ? `Running ${planned.length} security checks on the QR code URL and its final destination...`
+              : `Running ${planned.length} security checks...`);
+            break;
+          case 'started':
+            setProviderStates(prev => ({ ...prev, [event.providerId]: 'running' }));
+            setScanningStep(`Checking with ${getProviderDefinition(event.providerId)?.name ?? event.providerId}...`);
+            break;
+          case 'result':
+            setSecurityChecks(prev => [...prev, ...event.checks]);
+            break;
+          case 'finished': {
+            const totalRuns = planned.length * targetCount;
+            const outcomes = [...(providerOutcomes[event.providerId] ?? []), event.status];
+            providerOutcomes[event.providerId] = outcomes;
+            finishedCount += 1;
+            if (outcomes.length === targetCount) {
+              const status = outcomes.find(outcome => outcome !== 'completed') ?? 'completed';
+              setProviderStates(prev => ({ ...prev, [event.providerId]: status }));
+            }
+            setScanProgress(totalRuns > 0 ? (finishedCount / totalRuns) * 100 : 100);
+            setScanningStep(`${getProviderDefinition(event.providerId)?.name ?? event.providerId} finished (${finishedCount} of ${totalRuns})`);
+            break;
+          }
+        }
+      });
 
-      setScanProgress(70);
-      setScanningStep('Cross-referencing with global threat databases...');
-      
-      await new Promise(resolve => setTimeout(resolve, 800));
-      setScanProgress(90);
-      setScanningStep('Finalizing security assessment...');
-      
-      const { results, overallRisk } = data;
       setSecurityChecks(results);
+      setRedirectChain(chain ?? null);
       
-      // Save scan result to database if user is authenticated
-      if (user) {
-        const { error: dbError } = await supabase
-          .from('qr_scan_results')
-          .insert({
-            qr_data: url,
-            security_checks: results,
-            overall_risk: overallRisk,
-            user_id: user.id
-          });
-
-        if (dbError) {
-          console.error('Failed to save scan result:', dbError);
-        }
-      }
+      await recordScan(data, results, risk);
       
       setScanProgress(100);
       setScanningStep('Security analysis complete!');
-      
-      await new Promise(resolve => setTimeout(resolve, 500));
       setReportReady(true);
       
       toast({
@@ -131,9 +199,18 @@ const Index = () => {
       
     } catch (error) {
       console.error('Security scan failed:', error);
+
+      // Fall back to the local URL checks, which need no network access
+      setSecurityChecks([
+        { ...analyzeUrlHeuristics(url), providerId: 'heuristics' },
+        { ...analyzeBrandImpersonation(url, scanOptions.protectedBrands), providerId: 'brand-protection' }
+      ]);
+      setScanProviders([getProviderDefinition('heuristics'), getProviderDefinition('brand-protection')]);
+      setScanProgress(100);
+      setReportReady(true);
       toast({
-        title: "Analysis Failed",
-        description: "Failed to complete security analysis. Please check your API keys in Settings.",
+        title: "Online Analysis Unavailable",
+        description: "Could not reach the security scan service. Showing offline URL checks only.",
         variant: "destructive"
       });
     }
@@ -141,6 +218,15 @@ const Index = () => {
     setIsScanning(false);
   };
 
+  // Scans the same code again, asking every provider instead of reusing
+  // verdicts cached from recent scans of the URL.
+  const handleForceRefresh = () => {
+    if (!qrData || !qrPayload?.url) return;
+    setSecurityChecks([]);
+    setReportReady(false);
+    performSecurityScan(qrPayload.url, qrData, { forceRefresh: true });
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     toast({
@@ -151,15 +237,20 @@ const Index = () => {
 
   const downloadReport = () => {
     const timestamp = new Date();
-    const overallRisk = securityChecks.some(c => c.status === 'failed') ? 'HIGH' : 
-                       securityChecks.some(c => c.status === 'warning') ? 'MEDIUM' : 'LOW';
+    const { score: riskScore, overallRisk, confidence, verdict, reasons } = assessRisk(securityChecks);
+
+    let scannedUrl: URL | null = null;
+    try {
+      scannedUrl = qrPayload?.url ? new URL(qrPayload.url) : null;
+    } catch {
+      scannedUrl = null;
+    }
     
-    // Calculate detailed risk score
+    // Count check outcomes
     const total = securityChecks.length;
     const passed = securityChecks.filter(c => c.status === 'passed').length;
     const failed = securityChecks.filter(c => c.status === 'failed').length;
     const warnings = securityChecks.filter(c => c.status === 'warning').length;
-    const riskScore = total > 0 ? Math.max(0, 100 - (failed * 40) - (warnings * 20)) : 0;
 
     // Extract detailed engine results
     const engineResults = securityChecks.map(check => {
@@ -170,7 +261,7 @@ const Index = () => {
           positiveDetections: check.engines.positives || 0,
           scanDate: check.engines.scan_date || timestamp.toISOString(),
           permalink: check.engines.permalink || '',
-          detailedResults: Object.entries(check.engines.scans).map(([engine, result]: [string, any]) => ({
+          detailedResults: Object.entries(check.engines.scans).map(([engine, result]) => ({
             engineName: engine,
             result: result.result,
             detected: result.detected,
@@ -195,27 +286,56 @@ const Index = () => {
 
       // Scanned URL Information
       targetInformation: {
-        originalUrl: qrData,
+        originalData: qrPayload?.fields.some(field => field.sensitive) ? '[redacted - contains credentials]' : qrData,
+        payloadType: qrPayload ? payloadTypeLabels[qrPayload.type] : 'Unknown',
+        payloadFields: qrPayload && qrPayload.type !== 'url'
+          ? qrPayload.fields.map(field => ({ field: field.label, value: field.sensitive ? '[redacted]' : field.value }))
+          : undefined,
+        embeddedUrls: qrPayload?.embeddedUrls.length ? qrPayload.embeddedUrls : undefined,
+        originalUrl: qrPayload?.url ?? null,
         scanSource: scanSource,
         scanSourceDetails: {
           camera: "QR Code scanned via device camera",
           upload: "QR Code extracted from uploaded image",
           manual: "URL entered manually for analysis"
         }[scanSource] || "Unknown source",
-        urlLength: qrData?.length || 0,
-        protocol: qrData?.split('://')[0] || 'unknown',
-        domain: qrData ? new URL(qrData).hostname : 'unknown',
-        path: qrData ? new URL(qrData).pathname : '/',
-        hasQuery: qrData ? new URL(qrData).search.length > 0 : false
+        urlLength: qrPayload?.url?.length || 0,
+        protocol: scannedUrl?.protocol.replace(/:$/, '') || 'n/a',
+        domain: scannedUrl?.hostname || 'n/a',
+        path: scannedUrl?.pathname || 'n/a',
+        hasQuery: scannedUrl ? scannedUrl.search.length > 0 : false,
+        finalUrl: redirectChain?.finalUrl ?? qrPayload?.url ?? null,
+        redirectChain: redirectChain ? {
+          hopCount: redirectChain.hops.length - 1,
+          hops: redirectChain.hops.map((hop, index) => ({
+            step: index + 1,
+            url: hop.url,
+            httpStatus: hop.status,
+            redirectType: hop.via
+          })),
+          stoppedBecause: redirectChain.stopReason,
+          error: redirectChain.error
+        } : null
       },
 
       // Risk Assessment Summary
       riskAssessment: {
         overallRisk: overallRisk,
         riskScore: riskScore,
-        confidence: total > 0 ? Math.min(100, (total / 4) * 100) : 0,
+        confidence: confidence,
+        verdict: verdict,
         threatLevel: overallRisk,
-        recommendation: overallRisk === 'HIGH' ? 'DO NOT VISIT - High security risk detected' :
+        contributingReasons: reasons.map(reason => ({
+          check: reason.checkName,
+          target: reason.target,
+          status: reason.status.toUpperCase(),
+          scoreImpact: -reason.impact,
+          weight: reason.weight,
+          confidence: reason.confidence,
+          explanation: reason.summary
+        })),
+        recommendation: !verdict ? 'NO VERDICT - No security source answered, re-run the scan' :
+                       overallRisk === 'HIGH' ? 'DO NOT VISIT - High security risk detected' :
                        overallRisk === 'MEDIUM' ? 'CAUTION - Potential security concerns identified' :
                        'SAFE - No significant threats detected',
         detectionSummary: {
@@ -223,6 +343,9 @@ const Index = () => {
           checksPass: passed,
           checksFailed: failed,
           checksWarning: warnings,
+          checksTimedOut: securityChecks.filter(c => c.status === 'timeout').length,
+          checksErrored: securityChecks.filter(c => c.status === 'error').length,
+          checksSkipped: securityChecks.filter(c => c.status === 'skipped').length,
           checksPending: securityChecks.filter(c => c.status === 'pending').length
         }
       },
@@ -231,6 +354,7 @@ const Index = () => {
       securityAnalysis: {
         checksPerformed: securityChecks.map(check => ({
           checkName: check.name,
+          target: check.target === 'final' ? 'FINAL_DESTINATION' : 'ORIGINAL_URL',
           description: check.description,
           status: check.status.toUpperCase(),
           details: check.details || 'No additional details available',
@@ -238,7 +362,15 @@ const Index = () => {
                    check.status === 'warning' ? 'MEDIUM' : 'LOW',
           remediation: check.status === 'failed' ? 'Block access to this URL immediately' :
                       check.status === 'warning' ? 'Exercise caution when accessing' :
-                      'URL appears safe for access'
+                      check.status === 'timeout' ? 'Check did not complete - re-run the scan for a verdict' :
+                      check.status === 'error' ? 'Provider could not be reached - re-run the scan for a verdict' :
+                      check.status === 'skipped' ? 'Check could not be applied to this URL - no verdict' :
+                      'URL appears safe for access',
+          finalUrl: check.finalUrl,
+          contactedDomains: check.contactedDomains,
+          providerReport: check.reportUrl,
+          findings: check.findings,
+          impersonatedBrand: check.impersonatedBrand
         })),
         
         // Engine-Specific Results
@@ -262,12 +394,7 @@ const Index = () => {
       technicalDetails: {
         scanTimestamp: timestamp.toISOString(),
         scanDuration: "< 30 seconds",
-        apiEndpointsUsed: [
-          "VirusTotal v3 API",
-          "Google Safe Browsing API",
-          "URLScan.io API",
-          "IPInfo API"
-        ],
+        apiEndpointsUsed: scanProviders.filter(provider => provider.api).map(provider => provider.api),
         scanTechnologies: [
           "Multi-engine malware detection",
           "Real-time threat intelligence",
@@ -363,11 +490,7 @@ const Index = () => {
     );
   }
 
-  const getOverallRisk = () => {
-    if (securityChecks.some(c => c.status === 'failed')) return 'HIGH';
-    if (securityChecks.some(c => c.status === 'warning')) return 'MEDIUM';
-    return 'LOW';
-  };
+  const getOverallRisk = () => assessRisk(securityChecks).overallRisk;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-900 dark:to-black transition-colors duration-300">
@@ -378,14 +501,24 @@ const Index = () => {
             {/* Settings/Auth Button - Left Side */}
             <div className="flex items-center gap-2 order-2 sm:order-1 w-full sm:w-auto justify-start">
               {user ? (
-                <Button
-                  variant="ghost"
-                  onClick={() => navigate('/settings')}
-                  className="flex items-center gap-2 rounded-full bg-white/10 dark:bg-gray-800/50 backdrop-blur-sm border border-gray-200/20 dark:border-gray-700/50 hover:bg-white/20 dark:hover:bg-gray-700/50"
-                >
-                  <SettingsIcon className="w-4 h-4" />
-                  <span className="hidden sm:inline">Settings</span>
-                </Button>
+                <>
+                  <Button
+                    variant="ghost"
+                    onClick={() => navigate('/settings')}
+                    className="flex items-center gap-2 rounded-full bg-white/10 dark:bg-gray-800/50 backdrop-blur-sm border border-gray-200/20 dark:border-gray-700/50 hover:bg-white/20 dark:hover:bg-gray-700/50"
+                  >
+                    <SettingsIcon className="w-4 h-4" />
+                    <span className="hidden sm:inline">Settings</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => navigate('/history')}
+                    className="flex items-center gap-2 rounded-full bg-white/10 dark:bg-gray-800/50 backdrop-blur-sm border border-gray-200/20 dark:border-gray-700/50 hover:bg-white/20 dark:hover:bg-gray-700/50"
+                  >
+                    <History className="w-4 h-4" />
+                    <span className="hidden sm:inline">History</span>
+                  </Button>
+                </>
               ) : (
                 <Button
                   variant="ghost"
@@ -466,16 +599,14 @@ const Index = () => {
                 <CardHeader>
                   <CardTitle className="text-lg sm:text-xl text-gray-800 dark:text-gray-100 flex items-center gap-2">
                     <Globe className="w-4 h-4 sm:w-5 sm:h-5 text-blue-500" />
-                    {scanSource === 'manual' ? 'Entered URL' : 'Extracted QR Code Data'}
+                    {scanSource === 'manual' ? 'Entered Data' : 'Extracted QR Code Data'}
                   </CardTitle>
                   <CardDescription className="text-sm">
                     Source: {scanSource === 'camera' ? 'Camera scan' : scanSource === 'upload' ? 'Image upload' : 'Manual entry'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <div className="p-3 sm:p-4 bg-gray-50 dark:bg-gray-800 rounded-2xl border border-gray-200 dark:border-gray-700">
-                    <p className="text-xs sm:text-sm font-mono text-gray-800 dark:text-gray-200 break-all">{qrData}</p>
-                  </div>
+                  {qrPayload && <QrPayloadView payload={qrPayload} />}
                 </CardContent>
               </Card>
             )}
@@ -488,8 +619,12 @@ const Index = () => {
               scanProgress={scanProgress}
               scanningStep={scanningStep}
               securityChecks={securityChecks}
+              providers={scanProviders}
+              providerStates={providerStates}
+              redirectChain={redirectChain}
               showAllEngines={showAllEngines}
               onToggleEngines={() => setShowAllEngines(!showAllEngines)}
+              onForceRefresh={handleForceRefresh}
             />
           </div>
         </div>
@@ -4,69 +4,131 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { 
   Save, 
   Key, 
-  Shield, 
   AlertTriangle, 
   CheckCircle, 
+  XCircle,
   ExternalLink,
-  Eye,
+  Loader2,
   LogOut,
   ArrowLeft,
+  ShieldCheck,
+  ScanLine,
+  CalendarClock,
   Settings as SettingsIcon
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
 import { useTheme } from '@/components/ThemeProvider';
+import { OrganizationSettings } from '@/components/OrganizationSettings';
 import { supabase } from '@/integrations/supabase/client';
+import { deleteApiKey, fetchStoredApiKeys, migrateLocalApiKeys, saveApiKey, testApiKey, type StoredApiKeys } from '@/lib/apiKeys';
+import { getProviderAppearance } from '@/lib/providers';
+import { isRemoteDecoderEnabled, setRemoteDecoderEnabled } from '@/lib/qrDecoder';
+import { formatProtectedBrands, loadScanOptions, parseProtectedBrands, saveScanOptions } from '@/lib/scanOptions';
+import { defaultProtectedBrands } from '@shared/brands';
+import { MAX_DOMAIN_AGE_THRESHOLD_DAYS, resolveDomainAgeThreshold } from '@shared/domainAge';
+import { apiKeyNames, providerDefinitions } from '@shared/providers';
+import type { ApiKeyName, ApiKeyValidation } from '@shared/types';
 
 const Settings = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const { theme, setTheme, isDark } = useTheme();
   
-  const [apiKeys, setApiKeys] = useState({
-    VIRUSTOTAL_API_KEY: '',
-    GOOGLE_SAFE_BROWSING_API_KEY: '',
-    URLSCAN_API_KEY: '',
-    IPINFO_API_KEY: '',
-    BROWSERLESS_API_KEY: ''
-  });
+  const [apiKeys, setApiKeys] = useState<Record<ApiKeyName, string>>(
+    () => Object.fromEntries(apiKeyNames.map(key => [key, ''])) as Record<ApiKeyName, string>
+  );
+
+  const [storedKeys, setStoredKeys] = useState<StoredApiKeys>({});
+
+  // Results of testing typed, not yet saved keys
+  const [typedValidations, setTypedValidations] = useState<Partial<Record<ApiKeyName, ApiKeyValidation>>>({});
+
+  const [testingKey, setTestingKey] = useState<ApiKeyName | null>(null);
 
   const [isSaving, setIsSaving] = useState(false);
 
+  const [remoteDecoder, setRemoteDecoder] = useState(isRemoteDecoderEnabled);
+
+  const [protectedBrandsText, setProtectedBrandsText] = useState(
+    () => formatProtectedBrands(loadScanOptions().protectedBrands)
+  );
+
+  const [domainAgeThreshold, setDomainAgeThreshold] = useState(
+    () => String(resolveDomainAgeThreshold(loadScanOptions().domainAgeThresholdDays))
+  );
+
   useEffect(() => {
-    // Load API keys from localStorage on component mount
-    const savedKeys = localStorage.getItem('qr-shield-api-keys');
-    if (savedKeys) {
-      try {
-        const parsedKeys = JSON.parse(savedKeys);
-        setApiKeys(prev => ({ ...prev, ...parsedKeys }));
-      } catch (error) {
-        console.error('Failed to parse saved API keys:', error);
-      }
-    }
-  }, []);
+    if (!user) return;
+
+    // Only the last characters of stored keys ever come back from the server
+    migrateLocalApiKeys()
+      .catch(error => console.error('Failed to move API keys to the account:', error))
+      .then(fetchStoredApiKeys)
+      .then(setStoredKeys)
+      .catch((error) => {
+        console.error('Failed to load API keys:', error);
+        toast({
+          title: "Could Not Load API Keys",
+          description: "Your saved keys could not be retrieved. Please try again.",
+          variant: "destructive"
+        });
+      });
+  }, [user]);
+
+  const handleRemoteDecoderChange = (enabled: boolean) => {
+    setRemoteDecoder(enabled);
+    setRemoteDecoderEnabled(enabled);
+  };
+
+  const handleSaveScanOptions = () => {
+    const protectedBrands = parseProtectedBrands(protectedBrandsText);
+    saveScanOptions({ ...loadScanOptions(), protectedBrands });
+    setProtectedBrandsText(formatProtectedBrands(protectedBrands));
+
+    toast({
+      title: "Scan Preferences Saved",
+      description: `${protectedBrands.length} custom brand${protectedBrands.length === 1 ? '' : 's'} will be checked for impersonation`
+    });
+  };
+
+  const handleSaveDomainAgeThreshold = () => {
+    const domainAgeThresholdDays = resolveDomainAgeThreshold(Number(domainAgeThreshold));
+    saveScanOptions({ ...loadScanOptions(), domainAgeThresholdDays });
+    setDomainAgeThreshold(String(domainAgeThresholdDays));
+
+    toast({
+      title: "Scan Preferences Saved",
+      description: `Domains registered less than ${domainAgeThresholdDays} day${domainAgeThresholdDays === 1 ? '' : 's'} ago will be flagged`
+    });
+  };
 
   const handleSaveApiKeys = async () => {
     setIsSaving(true);
     try {
-      // Filter out empty keys
-      const filteredKeys = Object.fromEntries(
-        Object.entries(apiKeys).filter(([_, value]) => value.trim() !== '')
-      );
-      
-      // Save to localStorage
-      localStorage.setItem('qr-shield-api-keys', JSON.stringify(filteredKeys));
-      
+      // Only keys the user typed are sent; empty fields keep the stored key
+      const changedKeys = apiKeyNames.filter(key => apiKeys[key].trim() !== '');
+      for (const key of changedKeys) {
+        await saveApiKey(key, apiKeys[key]);
+      }
+
+      setStoredKeys(await fetchStoredApiKeys());
+      setTypedValidations({});
+      setApiKeys(Object.fromEntries(apiKeyNames.map(key => [key, ''])) as Record<ApiKeyName, string>);
+
       toast({
         title: "API Keys Saved",
-        description: "Your API keys have been saved securely and will persist across sessions"
+        description: "Your API keys are stored encrypted on the server and only used by the security scan"
       });
     } catch (error) {
       console.error('Failed to save API keys:', error);
@@ -79,53 +141,97 @@ const Settings = () => {
     setIsSaving(false);
   };
 
+  const handleRemoveApiKey = async (key: ApiKeyName) => {
+    try {
+      await deleteApiKey(key);
+      setStoredKeys(prev => {
+        const { [key]: _removed, ...rest } = prev;
+        return rest;
+      });
+      toast({
+        title: "API Key Removed",
+        description: "The key was deleted from your account"
+      });
+    } catch (error) {
+      console.error('Failed to remove API key:', error);
+      toast({
+        title: "Remove Failed",
+        description: "Failed to remove the API key. Please try again.",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Tests the typed key when there is one, otherwise the stored key.
+  const handleTestApiKey = async (key: ApiKeyName) => {
+    const typedKey = apiKeys[key].trim();
+    setTestingKey(key);
+    try {
+      const validation = await testApiKey(key, typedKey || undefined);
+      if (typedKey) {
+        setTypedValidations(prev => ({ ...prev, [key]: validation }));
+      } else {
+        setStoredKeys(prev => ({ ...prev, [key]: { hint: prev[key]?.hint ?? '', validation } }));
+      }
+    } catch (error) {
+      console.error('Failed to test API key:', error);
+      toast({
+        title: "Test Failed",
+        description: "Could not reach the validation service. Please try again.",
+        variant: "destructive"
+      });
+    }
+    setTestingKey(null);
+  };
+
+  // The typed key's result while the field has text, otherwise the stored key's
+  const renderValidation = (key: ApiKeyName) => {
+    const validation = apiKeys[key].trim() ? typedValidations[key] : storedKeys[key]?.validation;
+    if (!validation) return null;
+
+    const appearance = {
+      valid: { icon: <CheckCircle className="w-4 h-4 text-green-500" />, color: 'text-green-700 dark:text-green-400' },
+      invalid: { icon: <XCircle className="w-4 h-4 text-red-500" />, color: 'text-red-700 dark:text-red-400' },
+      'quota-exceeded': { icon: <AlertTriangle className="w-4 h-4 text-amber-500" />, color: 'text-amber-700 dark:text-amber-400' },
+      error: { icon: <AlertTriangle className="w-4 h-4 text-gray-500" />, color: 'text-gray-700 dark:text-gray-300' }
+    }[validation.status];
+
+    return (
+      <div className="space-y-1 text-xs">
+        <p className={`flex items-center gap-1.5 font-medium ${appearance.color}`}>
+          {appearance.icon}
+          {validation.message}
+        </p>
+        {validation.quotas?.map(quota => (
+          <p key={quota.period} className="text-gray-600 dark:text-gray-400">
+            {quota.period}: {quota.remaining !== undefined
+              ? `${quota.remaining.toLocaleString()} of ${quota.limit?.toLocaleString()} requests left`
+              : `${quota.limit?.toLocaleString()} requests allowed`}
+          </p>
+        ))}
+        <p className="text-gray-500 dark:text-gray-500">
+          Checked {formatDistanceToNow(new Date(validation.validatedAt), { addSuffix: true })}
+        </p>
+      </div>
+    );
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
     navigate('/');
   };
 
-  const apiKeyConfigs = [
-    {
-      key: 'VIRUSTOTAL_API_KEY',
-      name: 'VirusTotal API Key',
-      description: 'Required for malware and threat detection analysis',
-      link: 'https://www.virustotal.com/gui/join-us',
-      icon: <Shield className="w-4 h-4" />,
-      required: true
-    },
-    {
-      key: 'GOOGLE_SAFE_BROWSING_API_KEY',
-      name: 'Google Safe Browsing API Key',
-      description: 'Google\'s threat detection and safe browsing service',
-      link: 'https://developers.google.com/safe-browsing/v4/get-started',
-      icon: <Shield className="w-4 h-4" />,
-      required: true
-    },
-    {
-      key: 'URLSCAN_API_KEY',
-      name: 'URLScan.io API Key',
-      description: 'Deep website analysis and screenshot capture',
-      link: 'https://urlscan.io/user/signup',
-      icon: <Eye className="w-4 h-4" />,
-      required: false
-    },
-    {
-      key: 'IPINFO_API_KEY',
-      name: 'IPInfo API Key',
-      description: 'IP geolocation and network information',
-      link: 'https://ipinfo.io/signup',
-      icon: <ExternalLink className="w-4 h-4" />,
-      required: false
-    },
-    {
-      key: 'BROWSERLESS_API_KEY',
-      name: 'Browserless API Key',
-      description: 'Sandbox screenshot capture for security analysis',
-      link: 'https://www.browserless.io/sign-up',
-      icon: <Eye className="w-4 h-4" />,
-      required: false
-    }
-  ];
+  const apiKeyConfigs = providerDefinitions.flatMap((provider) => {
+    const { icon: Icon } = getProviderAppearance(provider);
+    return provider.requiredKeys.map((key) => ({
+      key,
+      name: `${provider.name} API Key`,
+      description: provider.description,
+      link: provider.signupUrl,
+      icon: <Icon className="w-4 h-4" />,
+      required: provider.essential
+    }));
+  });
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 via-white to-gray-100 dark:from-gray-900 dark:via-gray-900 dark:to-black">
@@ -185,10 +291,18 @@ const Settings = () => {
               API Configuration
             </CardTitle>
             <CardDescription>
-              Configure your API keys for enhanced security analysis features
+              Configure your API keys for enhanced security analysis features. Keys saved here take
+              precedence over keys shared by your organization.
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6">
+            {!user && (
+              <div className="p-4 bg-blue-50 dark:bg-blue-950/30 rounded-2xl border border-blue-200 dark:border-blue-800">
+                <p className="text-sm text-blue-800 dark:text-blue-300">
+                  Sign in to store API keys on your account. Scans without keys run the local checks only.
+                </p>
+              </div>
+            )}
             {apiKeyConfigs.map((config) => (
               <div key={config.key} className="space-y-3">
                 <div className="flex items-center justify-between">
@@ -213,14 +327,37 @@ const Settings = () => {
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   {config.description}
                 </p>
-                <Input
-                  id={config.key}
-                  type="password"
-                  placeholder={`Enter your ${config.name}...`}
-                  value={apiKeys[config.key as keyof typeof apiKeys]}
-                  onChange={(e) => setApiKeys(prev => ({ ...prev, [config.key]: e.target.value }))}
-                  className="font-mono text-sm"
-                />
+                <div className="flex gap-2">
+                  <Input
+                    id={config.key}
+                    type="password"
+                    autoComplete="off"
+                    placeholder={storedKeys[config.key]?.hint
+                      ? `Saved key ending in ${storedKeys[config.key]?.hint} - enter a new key to replace it`
+                      : `Enter your ${config.name}...`}
+                    value={apiKeys[config.key]}
+                    onChange={(e) => {
+                      setApiKeys(prev => ({ ...prev, [config.key]: e.target.value }));
+                      setTypedValidations(prev => ({ ...prev, [config.key]: undefined }));
+                    }}
+                    disabled={!user}
+                    className="font-mono text-sm"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => handleTestApiKey(config.key)}
+                    disabled={!user || testingKey !== null || (!apiKeys[config.key].trim() && !storedKeys[config.key])}
+                    className="shrink-0"
+                  >
+                    {testingKey === config.key ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Test'}
+                  </Button>
+                  {storedKeys[config.key]?.hint && (
+                    <Button variant="outline" onClick={() => handleRemoveApiKey(config.key)} className="shrink-0">
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                {renderValidation(config.key)}
               </div>
             ))}
 
@@ -230,12 +367,12 @@ const Settings = () => {
               <div className="space-y-1">
                 <p className="text-sm font-medium">API Key Status</p>
                 <p className="text-xs text-gray-600 dark:text-gray-400">
-                  {Object.values(apiKeys).filter(key => key.trim() !== '').length} of {Object.keys(apiKeys).length} keys configured
+                  {Object.keys(storedKeys).length} of {apiKeyNames.length} keys configured
                 </p>
               </div>
               <Button 
                 onClick={handleSaveApiKeys}
-                disabled={isSaving}
+                disabled={isSaving || !user || apiKeyNames.every(key => apiKeys[key].trim() === '')}
                 className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
               >
                 {isSaving ? (
@@ -251,6 +388,132 @@ const Settings = () => {
           </CardContent>
         </Card>
 
+        {/* Organization */}
+        {user && <OrganizationSettings userId={user.id} />}
+
+        {/* Scan Preferences */}
+        <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="w-5 h-5" />
+              Protected Brands
+            </CardTitle>
+            <CardDescription>
+              Scanned domains that imitate these brands are flagged as possible phishing
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <Label htmlFor="protected-brands" className="font-medium">Custom brands</Label>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                One brand per line as <span className="font-mono">Name = domain.com, other-domain.com</span>.
+                A custom entry with the same name as a built-in brand replaces it.
+              </p>
+              <Textarea
+                id="protected-brands"
+                placeholder={'Acme Bank = acmebank.com, acme.bank\nCity Parking = cityparking.example'}
+                value={protectedBrandsText}
+                onChange={(e) => setProtectedBrandsText(e.target.value)}
+                className="font-mono text-sm min-h-[120px]"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Built-in brands</p>
+              <div className="flex flex-wrap gap-2">
+                {defaultProtectedBrands.map((brand) => (
+                  <Badge key={brand.name} variant="secondary" title={brand.domains.join(', ')}>
+                    {brand.name}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSaveScanOptions}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save Brands
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Domain Age */}
+        <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="w-5 h-5" />
+              Domain Age
+            </CardTitle>
+            <CardDescription>
+              Freshly registered domains are a common sign of a phishing campaign
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="space-y-3">
+              <Label htmlFor="domain-age-threshold" className="font-medium">Warn below (days)</Label>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Scanned domains registered fewer days ago than this are flagged, based on registry data from RDAP.
+              </p>
+              <Input
+                id="domain-age-threshold"
+                type="number"
+                min={1}
+                max={MAX_DOMAIN_AGE_THRESHOLD_DAYS}
+                value={domainAgeThreshold}
+                onChange={(e) => setDomainAgeThreshold(e.target.value)}
+                className="w-32"
+              />
+            </div>
+
+            <Separator />
+
+            <div className="flex justify-end">
+              <Button
+                onClick={handleSaveDomainAgeThreshold}
+                className="bg-gradient-to-r from-blue-500 to-purple-600 hover:from-blue-600 hover:to-purple-700"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save Threshold
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Image Decoding */}
+        <Card className="mb-6 border-0 shadow-2xl bg-white/80 dark:bg-gray-900/80 backdrop-blur-xl">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ScanLine className="w-5 h-5" />
+              Image Decoding
+            </CardTitle>
+            <CardDescription>
+              Uploaded QR images are decoded on this device and never leave your browser
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-6">
+              <div className="space-y-1">
+                <Label htmlFor="remote-decoder" className="font-medium">Remote decoding fallback</Label>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  When an image cannot be decoded locally, send it to api.qrserver.com instead.
+                  The image and the code's contents are shared with that service.
+                </p>
+              </div>
+              <Switch
+                id="remote-decoder"
+                checked={remoteDecoder}
+                onCheckedChange={handleRemoteDecoderChange}
+              />
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Security Notice */}
         <Card className="border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/20">
           <CardContent className="pt-6">
@@ -261,8 +524,8 @@ const Settings = () => {
                   Security Notice
                 </p>
                 <p className="text-xs text-amber-700 dark:text-amber-400">
-                  API keys are stored locally in your browser and are not transmitted to our servers. 
-                  They are only used for making direct API calls to security services.
+                  API keys are encrypted at rest in your account and are never sent back to the browser.
+                  Only the security scan service decrypts them, to call the providers on your behalf.
                 </p>
               </div>
             </div>
@@ -0,0 +1,55 @@
+import { createAdminClient } from './supabaseAdmin.ts'
+import type { ApiKeys, ApiKeyValidation } from './types.ts'
+
+// Verifies the bearer token and returns the signed-in caller's id. Anonymous
+// requests carry the project's anon key, which does not resolve to a user.
+export const getCallerId = async (req: Request): Promise<string | null> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const { data, error } = await createAdminClient().auth.getUser(token)
+  if (error || !data.user) return null
+  return data.user.id
+}
+
+const loadApiKeys = async (rpc: string, userId: string | null): Promise<ApiKeys> => {
+  if (!userId) return {}
+
+  const { data, error } = await createAdminClient().rpc(rpc, { target_user: userId })
+  if (error) {
+    console.error('Failed to load API keys:', error)
+    return {}
+  }
+  return (data ?? {}) as ApiKeys
+}
+
+// Decrypts the keys the caller saved on their own account. A failed lookup
+// degrades to no keys rather than failing the request.
+export const loadUserApiKeys = (userId: string | null) => loadApiKeys('get_user_api_keys', userId)
+
+// The keys a scan runs with: the caller's organization's shared keys when
+// their role may use them, overridden by any keys of their own.
+export const loadScanApiKeys = (userId: string | null) => loadApiKeys('get_scan_api_keys', userId)
+
+// Remembers the latest test result for a stored key so Settings can show it
+// on the next visit.
+export const recordApiKeyValidation = async (userId: string, validation: ApiKeyValidation) => {
+  const client = createAdminClient()
+  const { data, error } = await client
+    .from('user_api_keys')
+    .select('validation')
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error || !data) {
+    console.error('Failed to load API key validation:', error)
+    return
+  }
+
+  const { error: updateError } = await client
+    .from('user_api_keys')
+    .update({ validation: { ...data.validation, [validation.keyName]: validation } })
+    .eq('user_id', userId)
+  if (updateError) {
+    console.error('Failed to save API key validation:', updateError)
+  }
+}
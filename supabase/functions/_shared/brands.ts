@@ -0,0 +1,231 @@
+import { foldHomoglyphs, getRegistrableDomain, getSubdomainLabels, getTld, isCountryCodeTld, toUnicodeHostname } from './domain.ts'
+import type { CheckStatus, ProtectedBrand, SecurityCheck } from './types.ts'
+
+// Brands most often imitated by QR phishing: banks, parking payment apps and
+// parcel carriers, plus the big account providers. Users can extend the list
+// in Settings; their entries are sent with each scan request.
+export const defaultProtectedBrands: ProtectedBrand[] = [
+  { name: 'PayPal', domains: ['paypal.com', 'paypal.me'] },
+  { name: 'Chase', domains: ['chase.com'] },
+  { name: 'Bank of America', domains: ['bankofamerica.com', 'bofa.com'] },
+  { name: 'Wells Fargo', domains: ['wellsfargo.com'] },
+  { name: 'Citibank', domains: ['citi.com', 'citibank.com'] },
+  { name: 'Barclays', domains: ['barclays.co.uk', 'barclays.com'] },
+  { name: 'HSBC', domains: ['hsbc.com', 'hsbc.co.uk'] },
+  { name: 'Lloyds Bank', domains: ['lloydsbank.com'] },
+  { name: 'Santander', domains: ['santander.com', 'santander.co.uk'] },
+  { name: 'Revolut', domains: ['revolut.com'] },
+  { name: 'ParkMobile', domains: ['parkmobile.io', 'parkmobile.com'] },
+  { name: 'PayByPhone', domains: ['paybyphone.com', 'paybyphone.co.uk'] },
+  { name: 'RingGo', domains: ['myringgo.co.uk', 'ringgo.co.uk'] },
+  { name: 'EasyPark', domains: ['easypark.com', 'easypark.net'] },
+  { name: 'JustPark', domains: ['justpark.com'] },
+  { name: 'DHL', domains: ['dhl.com', 'dhl.de'] },
+  { name: 'UPS', domains: ['ups.com'] },
+  { name: 'FedEx', domains: ['fedex.com'] },
+  { name: 'USPS', domains: ['usps.com'] },
+  { name: 'Royal Mail', domains: ['royalmail.com'] },
+  { name: 'DPD', domains: ['dpd.com', 'dpd.co.uk'] },
+  { name: 'Evri', domains: ['evri.com'] },
+  { name: 'Amazon', domains: ['amazon.com', 'amazon.co.uk', 'amazon.de'] },
+  { name: 'Apple', domains: ['apple.com', 'icloud.com'] },
+  { name: 'Microsoft', domains: ['microsoft.com', 'live.com', 'office.com', 'microsoftonline.com'] },
+  { name: 'Google', domains: ['google.com', 'gmail.com'] },
+  { name: 'Netflix', domains: ['netflix.com'] }
+]
+
+export interface BrandMatch {
+  brand: ProtectedBrand;
+  rule: 'official' | 'homoglyph' | 'typosquat' | 'embedded-domain' | 'keyword';
+  status: CheckStatus;
+  message: string;
+}
+
+// Shorter brand labels collide with ordinary words too easily for the
+// fuzzier rules.
+const MIN_FUZZY_LENGTH = 5
+const MIN_KEYWORD_LENGTH = 4
+// Below this, a one-letter slip is as likely another word ("apply" for
+// "apple") and only warns, unless it swaps in a look-alike character.
+const MIN_STRICT_TYPO_LENGTH = 7
+
+// Country codes sold worldwide as generic or free TLDs. A brand's name under
+// one of these is no sign of a regional site.
+const GENERIC_COUNTRY_TLDS = new Set([
+  'ai', 'bz', 'cc', 'cf', 'co', 'cx', 'fm', 'ga', 'gg', 'gq', 'io', 'la', 'ly', 'me', 'ml',
+  'nu', 'pw', 'sh', 'su', 'tk', 'to', 'tv', 'vu', 'ws'
+])
+
+const isRegionalDomain = (domain: string) => {
+  const tld = getTld(domain)
+  return isCountryCodeTld(tld) && !GENERIC_COUNTRY_TLDS.has(tld)
+}
+
+// Damerau-Levenshtein (optimal string alignment) distance.
+export const editDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  )
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return d[a.length][b.length]
+}
+
+const allowedDistance = (label: string) => (label.length >= 9 ? 2 : 1)
+
+// First label of a registrable domain: "paypal" for "paypal.co.uk".
+const brandLabel = (domain: string) => getRegistrableDomain(domain).split('.')[0]
+
+const keywordsFor = (brand: ProtectedBrand): string[] =>
+  [...new Set([...(brand.keywords ?? []), ...brand.domains.map(brandLabel)])]
+    .map(keyword => keyword.toLowerCase())
+    .filter(keyword => keyword.length >= MIN_KEYWORD_LENGTH)
+
+const matchBrand = (hostname: string, brand: ProtectedBrand): BrandMatch | null => {
+  const registrable = getRegistrableDomain(hostname)
+  const official = brand.domains.map(domain => getRegistrableDomain(domain.toLowerCase()))
+
+  if (official.includes(registrable)) {
+    return { brand, rule: 'official', status: 'passed', message: `Official ${brand.name} domain` }
+  }
+
+  const label = registrable.split('.')[0]
+  const unicodeLabel = toUnicodeHostname(registrable).split('.')[0]
+  const foldedLabel = foldHomoglyphs(unicodeLabel)
+
+  for (const domain of official) {
+    const target = domain.split('.')[0]
+    if (foldedLabel === target && unicodeLabel !== target) {
+      return {
+        brand,
+        rule: 'homoglyph',
+        status: 'failed',
+        message: `${toUnicodeHostname(registrable)} uses look-alike characters to imitate ${domain}`
+      }
+    }
+    if (target.length >= MIN_FUZZY_LENGTH && label !== target) {
+      const plainDistance = editDistance(label, target)
+      const distance = Math.min(plainDistance, editDistance(foldedLabel, target))
+      if (distance <= allowedDistance(target)) {
+        const lookAlike = distance < plainDistance
+        return {
+          brand,
+          rule: 'typosquat',
+          status: lookAlike || target.length >= MIN_STRICT_TYPO_LENGTH ? 'failed' : 'warning',
+          message: `${registrable} is ${distance} character${distance === 1 ? '' : 's'} away from ${domain}`
+        }
+      }
+    }
+  }
+
+  const subdomains = getSubdomainLabels(hostname).join('.')
+  const embedded = official.find(domain => subdomains === domain || subdomains.endsWith(`.${domain}`) || subdomains.includes(`${domain}.`))
+  if (embedded) {
+    return {
+      brand,
+      rule: 'embedded-domain',
+      status: 'failed',
+      message: `${embedded} appears as a subdomain of ${registrable}, disguising the real site`
+    }
+  }
+
+  // The brand's own name under a country TLD missing from `domains`, such as
+  // google.de or amazon.co.jp, is most likely a regional site of the brand.
+  // Anywhere else, paypal.tk or netflix.click, it is the usual phishing shape.
+  if (official.some(domain => domain.split('.')[0] === label)) {
+    if (isRegionalDomain(registrable)) return null
+    return {
+      brand,
+      rule: 'keyword',
+      status: 'warning',
+      message: `${registrable} uses the ${brand.name} name but is not one of its official domains`
+    }
+  }
+
+  // Whole labels and hyphen-separated words only: "paypal-login" but not
+  // "pineapple" or "amazonaws".
+  const tokens = [...getSubdomainLabels(hostname), label]
+    .flatMap(part => part.split('-'))
+    .map(foldHomoglyphs)
+  const keyword = keywordsFor(brand).find(word => tokens.includes(word))
+  if (keyword) {
+    return {
+      brand,
+      rule: 'keyword',
+      status: 'warning',
+      message: `"${keyword}" appears in ${hostname}, which is not an official ${brand.name} domain`
+    }
+  }
+
+  return null
+}
+
+export const findBrandMatches = (hostname: string, brands: ProtectedBrand[] = defaultProtectedBrands): BrandMatch[] =>
+  brands
+    .map(brand => matchBrand(hostname.toLowerCase(), brand))
+    .filter((match): match is BrandMatch => match !== null)
+
+// Merges user-configured brands over the defaults, replacing defaults that
+// share a name.
+export const resolveProtectedBrands = (custom: ProtectedBrand[] = []): ProtectedBrand[] => {
+  const names = new Set(custom.map(brand => brand.name.toLowerCase()))
+  return [...defaultProtectedBrands.filter(brand => !names.has(brand.name.toLowerCase())), ...custom]
+}
+
+export const analyzeBrandImpersonation = (url: string, customBrands: ProtectedBrand[] = []): SecurityCheck => {
+  let hostname: string
+  try {
+    hostname = new URL(url).hostname
+  } catch {
+    return {
+      name: 'Brand Impersonation',
+      status: 'passed',
+      description: 'Comparison against protected brand domains',
+      details: 'No hostname to compare'
+    }
+  }
+
+  const matches = findBrandMatches(hostname, resolveProtectedBrands(customBrands))
+  const official = matches.find(match => match.rule === 'official')
+  if (official) {
+    return {
+      name: 'Brand Impersonation',
+      status: 'passed',
+      description: 'Comparison against protected brand domains',
+      details: official.message
+    }
+  }
+
+  const suspicious = matches.filter(match => match.status !== 'passed')
+  if (suspicious.length === 0) {
+    return {
+      name: 'Brand Impersonation',
+      status: 'passed',
+      description: 'Comparison against protected brand domains',
+      details: 'Does not imitate any protected brand'
+    }
+  }
+
+  const failed = suspicious.filter(match => match.status === 'failed')
+  const primary = failed[0] ?? suspicious[0]
+  const brands = [...new Set(suspicious.map(match => match.brand.name))]
+
+  return {
+    name: 'Brand Impersonation',
+    status: failed.length > 0 ? 'failed' : 'warning',
+    description: `Possible imitation of ${brands.join(', ')}`,
+    details: primary.message,
+    findings: suspicious.map(match => match.message),
+    impersonatedBrand: primary.brand.name,
+    // A brand name in the hostname alone is also how resellers, fan sites
+    // and partners name themselves.
+    confidence: failed.length > 0 ? 1 : 0.5
+  }
+}
@@ -0,0 +1,117 @@
+import { findBrandMatches, resolveProtectedBrands } from './brands.ts'
+import type { HeuristicFinding, HeuristicSeverity } from './heuristics.ts'
+import type { CertificateInfo, ProtectedBrand, SecurityCheck } from './types.ts'
+
+// Judges the certificate a server presented. Phishing sites nearly always
+// have a valid one these days, so besides the hard failures it looks at how
+// new a free certificate is on a domain that imitates a brand.
+
+// CAs that issue certificates automatically and at no cost.
+const FREE_ISSUERS = [/let's encrypt/i, /zerossl/i, /google trust services/i, /buypass/i, /cpanel/i]
+
+// Issued this recently, a free certificate on a lookalike domain is typical
+// of a site set up for one campaign.
+const FRESH_CERTIFICATE_DAYS = 7
+
+const OUTDATED_PROTOCOLS = new Set(['SSLv3', 'TLSv1', 'TLSv1.1'])
+
+// Errors the checks below already explain in their own words.
+const COVERED_AUTHORIZATION_ERRORS = new Set([
+  'CERT_HAS_EXPIRED',
+  'CERT_NOT_YET_VALID',
+  'DEPTH_ZERO_SELF_SIGNED_CERT',
+  'SELF_SIGNED_CERT_IN_CHAIN'
+])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const formatDate = (iso: string) => iso.slice(0, 10)
+
+// Exact names, or a wildcard standing for exactly one leftmost label.
+export const certificateMatchesHostname = (hostname: string, names: string[]): boolean => {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  return names.some((name) => {
+    const pattern = name.toLowerCase().replace(/\.$/, '')
+    if (!pattern.startsWith('*.')) return pattern === host
+    const suffix = pattern.slice(1)
+    return host.endsWith(suffix) && !host.slice(0, -suffix.length).includes('.') && host.length > suffix.length
+  })
+}
+
+export const isFreeIssuer = (issuer: string) => FREE_ISSUERS.some(pattern => pattern.test(issuer))
+
+export const findCertificateIssues = (
+  hostname: string,
+  certificate: CertificateInfo,
+  protectedBrands: ProtectedBrand[] = [],
+  now = Date.now()
+): HeuristicFinding[] => {
+  const findings: HeuristicFinding[] = []
+  const validFrom = new Date(certificate.validFrom).getTime()
+  const validTo = new Date(certificate.validTo).getTime()
+
+  if (validTo < now) {
+    findings.push({ id: 'expired', severity: 'high', message: `Certificate expired on ${formatDate(certificate.validTo)}` })
+  } else if (validFrom > now) {
+    findings.push({ id: 'not-yet-valid', severity: 'high', message: `Certificate is not valid until ${formatDate(certificate.validFrom)}` })
+  }
+
+  if (certificate.selfSigned) {
+    findings.push({ id: 'self-signed', severity: 'high', message: 'Certificate is self-signed' })
+  }
+
+  if (!certificateMatchesHostname(hostname, certificate.subjectAltNames)) {
+    const names = certificate.subjectAltNames.slice(0, 5).join(', ') || 'no names'
+    findings.push({ id: 'hostname-mismatch', severity: 'high', message: `Certificate is not issued for ${hostname} (covers ${names})` })
+  }
+
+  if (certificate.authorizationError && !COVERED_AUTHORIZATION_ERRORS.has(certificate.authorizationError)) {
+    findings.push({ id: 'untrusted', severity: 'high', message: `Certificate chain is not trusted (${certificate.authorizationError})` })
+  }
+
+  if (certificate.protocol && OUTDATED_PROTOCOLS.has(certificate.protocol)) {
+    findings.push({ id: 'outdated-protocol', severity: 'medium', message: `Negotiated the outdated ${certificate.protocol} protocol` })
+  }
+
+  const ageDays = Math.floor((now - validFrom) / DAY_MS)
+  if (ageDays >= 0 && ageDays < FRESH_CERTIFICATE_DAYS && isFreeIssuer(certificate.issuer)) {
+    const imitated = findBrandMatches(hostname, resolveProtectedBrands(protectedBrands))
+    if (!imitated.some(match => match.rule === 'official')) {
+      const lookalike = imitated.find(match => match.status !== 'passed')
+      if (lookalike) {
+        findings.push({
+          id: 'fresh-free-certificate',
+          severity: 'medium',
+          message: `Free ${certificate.issuer} certificate issued ${ageDays === 0 ? 'today' : `${ageDays} day${ageDays === 1 ? '' : 's'} ago`} for a domain imitating ${lookalike.brand.name}`
+        })
+      }
+    }
+  }
+
+  return findings
+}
+
+export const analyzeCertificate = (
+  hostname: string,
+  certificate: CertificateInfo,
+  protectedBrands: ProtectedBrand[] = [],
+  now = Date.now()
+): SecurityCheck => {
+  const findings = findCertificateIssues(hostname, certificate, protectedBrands, now)
+  const has = (severity: HeuristicSeverity) => findings.some(finding => finding.severity === severity)
+  const ageDays = Math.floor((now - new Date(certificate.validFrom).getTime()) / DAY_MS)
+  const summary = [
+    `Issued by ${certificate.issuer} ${ageDays >= 0 ? `${ageDays} day${ageDays === 1 ? '' : 's'} ago` : 'with a future start date'}`,
+    `valid ${formatDate(certificate.validFrom)} to ${formatDate(certificate.validTo)}`,
+    certificate.protocol
+  ].filter(Boolean).join(', ')
+
+  return {
+    name: 'SSL/TLS Security',
+    status: has('high') ? 'failed' : has('medium') ? 'warning' : 'passed',
+    description: 'TLS certificate inspection',
+    details: summary,
+    findings: findings.map(finding => finding.message),
+    certificate
+  }
+}
@@ -0,0 +1,128 @@
+import { getRegistrableDomain } from './domain.ts'
+import type { CaptureDevice, PageCapture, SecurityCheck } from './types.ts'
+
+// Compares sandbox captures of one page taken as different devices. Kits
+// behind QR codes like to show desktop crawlers a harmless page and phones
+// the actual lure, so every mobile capture is held against the desktop one.
+
+export const captureDeviceLabels: Record<CaptureDevice, string> = {
+  desktop: 'Desktop',
+  iphone: 'iPhone',
+  android: 'Android'
+}
+
+// Out of 64 bits. Desktop and phone layouts of one responsive page usually
+// stay well below this; unrelated pages land around 32.
+const MAX_IMAGE_HASH_DISTANCE = 24
+
+// Mobile pages are often lighter, so only a large gap counts.
+const MAX_DOM_SIZE_RATIO = 3
+
+const hammingDistance = (a: string, b: string): number => {
+  let distance = 0
+  for (let index = 0; index < Math.min(a.length, b.length); index++) {
+    let bits = parseInt(a[index], 16) ^ parseInt(b[index], 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+const getHostname = (url?: string): string | undefined => {
+  if (!url) return undefined
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return undefined
+  }
+}
+
+const normalizeTitle = (title?: string) => (title ?? '').trim().replace(/\s+/g, ' ').toLowerCase()
+
+interface CaptureComparison {
+  findings: string[];
+  // The device ended up on another registrable domain altogether.
+  otherSite: boolean;
+}
+
+const compareWithDesktop = (desktop: PageCapture, mobile: PageCapture): CaptureComparison => {
+  const label = captureDeviceLabels[mobile.device]
+  const findings: string[] = []
+
+  const desktopHost = getHostname(desktop.finalUrl)
+  const mobileHost = getHostname(mobile.finalUrl)
+  const otherSite = Boolean(desktopHost && mobileHost && getRegistrableDomain(desktopHost) !== getRegistrableDomain(mobileHost))
+  if (otherSite) {
+    findings.push(`${label} ended up on ${mobileHost} while desktop stayed on ${desktopHost}`)
+  } else if (desktop.finalUrl && mobile.finalUrl && desktop.finalUrl !== mobile.finalUrl) {
+    findings.push(`${label} was sent to a different URL: ${mobile.finalUrl}`)
+  }
+
+  if (normalizeTitle(desktop.title) !== normalizeTitle(mobile.title)) {
+    findings.push(`${label} saw the title "${mobile.title || '(none)'}" instead of "${desktop.title || '(none)'}"`)
+  }
+
+  if (desktop.domSize && mobile.domSize) {
+    const ratio = Math.max(desktop.domSize, mobile.domSize) / Math.min(desktop.domSize, mobile.domSize)
+    if (ratio >= MAX_DOM_SIZE_RATIO) {
+      findings.push(`${label} page has ${mobile.domSize} elements against ${desktop.domSize} on desktop`)
+    }
+  }
+
+  if (desktop.imageHash && mobile.imageHash && hammingDistance(desktop.imageHash, mobile.imageHash) > MAX_IMAGE_HASH_DISTANCE) {
+    findings.push(`${label} screenshot looks substantially different from desktop`)
+  }
+
+  return { findings, otherSite }
+}
+
+export const detectCloaking = (captures: PageCapture[]): SecurityCheck => {
+  const desktop = captures.find(capture => capture.device === 'desktop' && !capture.error)
+  const mobiles = captures.filter(capture => capture.device !== 'desktop' && !capture.error)
+
+  if (!desktop || mobiles.length === 0) {
+    return {
+      name: 'Cloaking Detection',
+      status: 'skipped',
+      description: 'Cloaking check skipped',
+      details: 'Not enough device captures succeeded to compare the desktop and mobile views'
+    }
+  }
+
+  const comparisons = mobiles.map(mobile => compareWithDesktop(desktop, mobile))
+  const findings = comparisons.flatMap(comparison => comparison.findings)
+  const compared = `Compared desktop with ${mobiles.map(mobile => captureDeviceLabels[mobile.device]).join(' and ')}`
+
+  if (comparisons.some(comparison => comparison.otherSite)) {
+    return {
+      name: 'Cloaking Detection',
+      status: 'failed',
+      description: 'Cloaking suspected: phones are sent to a different site than desktop browsers',
+      details: compared,
+      findings,
+      weight: 0.9
+    }
+  }
+
+  // One difference is normal for responsive sites; several on the same
+  // device mean it was shown another page.
+  if (comparisons.some(comparison => comparison.findings.length >= 2)) {
+    return {
+      name: 'Cloaking Detection',
+      status: 'warning',
+      description: 'Cloaking suspected: phones see a different page than desktop browsers',
+      details: compared,
+      findings,
+      weight: 0.7
+    }
+  }
+
+  return {
+    name: 'Cloaking Detection',
+    status: 'passed',
+    description: 'Desktop and mobile visitors see the same page',
+    details: findings.length > 0 ? `${compared} - minor difference: ${findings.join('; ')}` : compared
+  }
+}
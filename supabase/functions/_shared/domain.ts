@@ -0,0 +1,173 @@
+// Hostname helpers shared by the local URL checks. Pure functions only, so
+// the web client can run them offline as well.
+
+// Common multi-label public suffixes. This is deliberately a small subset of
+// the Public Suffix List: enough to find the registrable domain for the
+// hosts QR codes usually point at without shipping the full list.
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk', 'org.uk', 'ac.uk', 'gov.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk',
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au',
+  'co.nz', 'org.nz', 'net.nz',
+  'co.jp', 'ne.jp', 'or.jp', 'ac.jp',
+  'co.in', 'net.in', 'org.in', 'gov.in',
+  'co.za', 'org.za', 'gov.za',
+  'com.br', 'net.br', 'org.br', 'gov.br',
+  'com.cn', 'net.cn', 'org.cn', 'gov.cn',
+  'com.mx', 'org.mx', 'gob.mx',
+  'com.tr', 'com.sg', 'com.hk', 'com.tw', 'com.my', 'com.ar', 'com.co', 'com.pe',
+  'co.kr', 'or.kr', 'co.il', 'co.id', 'or.id', 'co.th', 'in.th'
+])
+
+// Hosting platforms that give every customer a subdomain of their own. The
+// customer's site is registrable in the browser's eyes, but no registry
+// holds a record for it.
+const PLATFORM_SUFFIXES = new Set([
+  'github.io', 'gitlab.io', 'netlify.app', 'vercel.app', 'pages.dev', 'workers.dev',
+  'herokuapp.com', 'firebaseapp.com', 'web.app', 'blogspot.com', 'azurewebsites.net',
+  'appspot.com', 'cloudfront.net', 'amazonaws.com', 'glitch.me', 'repl.co'
+])
+
+// Second levels most country registries sell names under, so com.ua or
+// org.pk are treated as suffixes even though they are not listed above.
+const GENERIC_SECOND_LEVELS = new Set(['com', 'net', 'org', 'co', 'or', 'ne', 'ac', 'edu', 'gov', 'gob', 'mil'])
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/
+
+export const isIpAddress = (hostname: string): boolean => {
+  const host = hostname.replace(/^\[|\]$/g, '')
+  return IPV4_PATTERN.test(host) || host.includes(':')
+}
+
+export const getTld = (hostname: string): string => hostname.split('.').pop() ?? ''
+
+export const isCountryCodeTld = (tld: string): boolean => /^[a-z]{2}$/i.test(tld)
+
+// Registrable domain ("eTLD+1"), e.g. login.example.co.uk -> example.co.uk.
+export const getRegistrableDomain = (hostname: string): string => {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  if (isIpAddress(host)) return host
+
+  const labels = host.split('.')
+  if (labels.length <= 2) return host
+
+  const lastTwo = labels.slice(-2).join('.')
+  const isSuffix = MULTI_LABEL_SUFFIXES.has(lastTwo) || PLATFORM_SUFFIXES.has(lastTwo) ||
+    (isCountryCodeTld(labels[labels.length - 1]) && GENERIC_SECOND_LEVELS.has(labels[labels.length - 2]))
+  return isSuffix ? labels.slice(-3).join('.') : lastTwo
+}
+
+// The hosting platform a site is a subdomain of, e.g. myapp.vercel.app ->
+// vercel.app, or undefined for sites on a domain of their own.
+export const getPlatformSuffix = (hostname: string): string | undefined => {
+  const labels = hostname.toLowerCase().replace(/\.$/, '').split('.')
+  const lastTwo = labels.slice(-2).join('.')
+  return labels.length > 2 && PLATFORM_SUFFIXES.has(lastTwo) ? lastTwo : undefined
+}
+
+// Labels in front of the registrable domain, e.g. ['login', 'secure'].
+export const getSubdomainLabels = (hostname: string): string[] => {
+  const host = hostname.toLowerCase().replace(/\.$/, '')
+  const registrable = getRegistrableDomain(host)
+  if (host === registrable) return []
+  return host.slice(0, -registrable.length - 1).split('.')
+}
+
+// RFC 3492 punycode decoding for a single `xn--` label.
+const decodePunycodeLabel = (input: string): string => {
+  const base = 36, tMin = 1, tMax = 26, skew = 38, damp = 700
+  const output: number[] = []
+  let n = 128
+  let i = 0
+  let bias = 72
+
+  const basicEnd = input.lastIndexOf('-')
+  for (let j = 0; j < Math.max(basicEnd, 0); j++) {
+    output.push(input.charCodeAt(j))
+  }
+
+  const digitValue = (code: number) =>
+    code - 48 < 10 ? code - 22 : code - 65 < 26 ? code - 65 : code - 97 < 26 ? code - 97 : base
+
+  const adapt = (delta: number, numPoints: number, firstTime: boolean) => {
+    let k = 0
+    delta = firstTime ? Math.floor(delta / damp) : delta >> 1
+    delta += Math.floor(delta / numPoints)
+    for (; delta > ((base - tMin) * tMax) >> 1; k += base) {
+      delta = Math.floor(delta / (base - tMin))
+    }
+    return Math.floor(k + ((base - tMin + 1) * delta) / (delta + skew))
+  }
+
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i
+    for (let w = 1, k = base; ; k += base) {
+      if (index >= input.length) throw new Error('Invalid punycode')
+      const digit = digitValue(input.charCodeAt(index++))
+      if (digit >= base) throw new Error('Invalid punycode')
+      i += digit * w
+      const t = k <= bias ? tMin : k >= bias + tMax ? tMax : k - bias
+      if (digit < t) break
+      w *= base - t
+    }
+    bias = adapt(i - oldI, output.length + 1, oldI === 0)
+    n += Math.floor(i / (output.length + 1))
+    i %= output.length + 1
+    output.splice(i++, 0, n)
+  }
+
+  return String.fromCodePoint(...output)
+}
+
+// Converts an ASCII (punycode) hostname back to its Unicode form.
+export const toUnicodeHostname = (hostname: string): string =>
+  hostname
+    .split('.')
+    .map(label => {
+      if (!label.toLowerCase().startsWith('xn--')) return label
+      try {
+        return decodePunycodeLabel(label.slice(4).toLowerCase())
+      } catch {
+        return label
+      }
+    })
+    .join('.')
+
+// Characters from other scripts (and digits) that render like Latin letters.
+const HOMOGLYPHS: Record<string, string> = {
+  // Cyrillic
+  'а': 'a', 'в': 'b', 'с': 'c', 'ԁ': 'd', 'е': 'e', 'һ': 'h', 'і': 'i', 'ј': 'j', 'к': 'k',
+  'ӏ': 'l', 'м': 'm', 'п': 'n', 'о': 'o', 'р': 'p', 'ԛ': 'q', 'г': 'r', 'ѕ': 's', 'т': 't',
+  'у': 'y', 'х': 'x', 'ԝ': 'w', 'ь': 'b', 'ү': 'y',
+  // Greek
+  'α': 'a', 'β': 'b', 'ε': 'e', 'η': 'n', 'ι': 'i', 'κ': 'k', 'ν': 'v', 'ο': 'o', 'ρ': 'p',
+  'τ': 't', 'υ': 'u', 'χ': 'x', 'ω': 'w',
+  // Latin look-alikes and accents
+  'ı': 'i', 'ł': 'l', 'ø': 'o', 'ß': 'b', 'à': 'a', 'á': 'a', 'â': 'a', 'ä': 'a', 'å': 'a',
+  'ç': 'c', 'è': 'e', 'é': 'e', 'ê': 'e', 'ë': 'e', 'ì': 'i', 'í': 'i', 'î': 'i', 'ï': 'i',
+  'ñ': 'n', 'ò': 'o', 'ó': 'o', 'ô': 'o', 'ö': 'o', 'ù': 'u', 'ú': 'u', 'û': 'u', 'ü': 'u',
+  'ý': 'y', 'ÿ': 'y'
+}
+
+// Digit and digraph substitutions commonly used in lookalike domains.
+const ASCII_LOOKALIKES: [RegExp, string][] = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/0/g, 'o'],
+  [/1/g, 'l'],
+  [/3/g, 'e'],
+  [/5/g, 's'],
+  [/\$/g, 's']
+]
+
+export const hasHomoglyphs = (text: string): boolean =>
+  [...text].some(char => HOMOGLYPHS[char] !== undefined)
+
+// Reduces a (Unicode) string to the Latin skeleton a reader would see, so
+// "pаypal" with a Cyrillic "а" and "paypa1" both fold to "paypal".
+export const foldHomoglyphs = (text: string): string => {
+  let folded = [...text.toLowerCase()].map(char => HOMOGLYPHS[char] ?? char).join('')
+  for (const [pattern, replacement] of ASCII_LOOKALIKES) {
+    folded = folded.replace(pattern, replacement)
+  }
+  return folded
+}
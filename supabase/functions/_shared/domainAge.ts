@@ -0,0 +1,101 @@
+import type { DomainRegistration, SecurityCheck } from './types.ts'
+
+// Domain age from registry data. A domain registered days before it shows up
+// in a QR code is the strongest single quishing signal there is, so young
+// domains are flagged even when nothing else looks wrong.
+
+export const DEFAULT_DOMAIN_AGE_THRESHOLD_DAYS = 30
+export const MAX_DOMAIN_AGE_THRESHOLD_DAYS = 3650
+
+// Registry flags meaning the domain was suspended or is on its way out,
+// often after abuse reports.
+const SUSPENDED_STATUSES = new Set(['client hold', 'server hold', 'pending delete', 'redemption period', 'inactive'])
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Falls back to the default for anything but a sensible whole number of days.
+export const resolveDomainAgeThreshold = (days?: number): number =>
+  typeof days === 'number' && Number.isFinite(days) && days >= 1
+    ? Math.min(Math.round(days), MAX_DOMAIN_AGE_THRESHOLD_DAYS)
+    : DEFAULT_DOMAIN_AGE_THRESHOLD_DAYS
+
+export const getDomainAgeDays = (registration: DomainRegistration, now = Date.now()): number | undefined =>
+  registration.createdAt ? Math.floor((now - new Date(registration.createdAt).getTime()) / DAY_MS) : undefined
+
+interface RdapEvent {
+  eventAction?: string;
+  eventDate?: string;
+}
+
+interface RdapEntity {
+  roles?: string[];
+  vcardArray?: [string, [string, unknown, string, unknown][]];
+  entities?: RdapEntity[];
+}
+
+interface RdapDomain {
+  ldhName?: string;
+  events?: RdapEvent[];
+  entities?: RdapEntity[];
+  status?: string[];
+  nameservers?: { ldhName?: string }[];
+}
+
+const getEventDate = (events: RdapEvent[], action: string): string | undefined => {
+  const date = events.find(event => event.eventAction === action)?.eventDate
+  return date && !Number.isNaN(Date.parse(date)) ? new Date(date).toISOString() : undefined
+}
+
+const getVcardName = (entity: RdapEntity): string | undefined => {
+  const name = entity.vcardArray?.[1]?.find(([property]) => property === 'fn')?.[3]
+  return typeof name === 'string' && name.trim() ? name.trim() : undefined
+}
+
+// Reads the parts of an RDAP domain response (RFC 9083) the check uses.
+export const parseRdapDomain = (domain: string, response: RdapDomain): DomainRegistration => {
+  const events = response.events ?? []
+  const registrar = (response.entities ?? []).find(entity => entity.roles?.includes('registrar'))
+
+  return {
+    domain: response.ldhName?.toLowerCase() ?? domain,
+    createdAt: getEventDate(events, 'registration'),
+    updatedAt: getEventDate(events, 'last changed'),
+    expiresAt: getEventDate(events, 'expiration'),
+    registrar: registrar ? getVcardName(registrar) : undefined,
+    statuses: (response.status ?? []).map(status => status.toLowerCase()),
+    nameservers: (response.nameservers ?? [])
+      .map(nameserver => nameserver.ldhName?.toLowerCase())
+      .filter((name): name is string => Boolean(name))
+  }
+}
+
+export const analyzeDomainAge = (
+  registration: DomainRegistration,
+  thresholdDays = DEFAULT_DOMAIN_AGE_THRESHOLD_DAYS,
+  now = Date.now()
+): SecurityCheck => {
+  const ageDays = getDomainAgeDays(registration, now)
+  const findings: string[] = []
+
+  if (ageDays !== undefined && ageDays < thresholdDays) {
+    findings.push(`${registration.domain} was registered ${ageDays === 0 ? 'today' : `${ageDays} day${ageDays === 1 ? '' : 's'} ago`}, under the ${thresholdDays}-day threshold`)
+  }
+
+  const suspended = registration.statuses.filter(status => SUSPENDED_STATUSES.has(status))
+  if (suspended.length > 0) {
+    findings.push(`Registry status: ${suspended.join(', ')}`)
+  }
+
+  const details = ageDays === undefined
+    ? 'The registry does not publish a creation date'
+    : `Registered on ${registration.createdAt.slice(0, 10)}${registration.registrar ? ` through ${registration.registrar}` : ''}`
+
+  return {
+    name: 'Domain Age',
+    status: findings.length > 0 ? 'warning' : 'passed',
+    description: findings.length > 0 ? 'Recently registered or suspended domain' : 'Domain registration data from RDAP',
+    details,
+    findings,
+    domainRegistration: registration
+  }
+}
@@ -0,0 +1,130 @@
+import { getSubdomainLabels, getTld, hasHomoglyphs, isIpAddress, toUnicodeHostname } from './domain.ts'
+import type { SecurityCheck } from './types.ts'
+
+// Keyless structural checks on the URL itself. They run inside the
+// security-scan function for every scan and in the browser when the function
+// cannot be reached.
+
+export type HeuristicSeverity = 'low' | 'medium' | 'high'
+
+export interface HeuristicFinding {
+  id: string;
+  severity: HeuristicSeverity;
+  message: string;
+}
+
+const DANGEROUS_SCHEMES = ['javascript:', 'data:', 'vbscript:', 'file:']
+
+// TLDs with a high share of abuse in public phishing feeds.
+const SUSPICIOUS_TLDS = new Set([
+  'zip', 'mov', 'xyz', 'top', 'tk', 'ml', 'ga', 'cf', 'gq', 'click', 'country', 'kim',
+  'work', 'rest', 'fit', 'cam', 'quest', 'support', 'sbs', 'cfd', 'icu', 'buzz', 'monster',
+  'loan', 'men', 'date', 'racing', 'review', 'live', 'link'
+])
+
+export const URL_SHORTENER_HOSTS = new Set([
+  'bit.ly', 'bitly.com', 'tinyurl.com', 't.co', 'goo.gl', 'ow.ly', 'is.gd', 'buff.ly',
+  'rebrand.ly', 'cutt.ly', 'shorturl.at', 'rb.gy', 't.ly', 'tiny.cc', 's.id', 'qrco.de',
+  'v.gd', 'lnkd.in', 'shorte.st', 'adf.ly', 'bl.ink', 'short.io', 'tr.ee', 'u.to'
+])
+
+const MAX_SUBDOMAIN_LABELS = 3
+const MAX_QUERY_LENGTH = 200
+const MAX_URL_LENGTH = 2000
+
+export const findUrlHeuristics = (url: string): HeuristicFinding[] => {
+  const trimmed = url.trim()
+  const scheme = DANGEROUS_SCHEMES.find(prefix => trimmed.toLowerCase().startsWith(prefix))
+  if (scheme) {
+    return [{
+      id: 'dangerous-scheme',
+      severity: 'high',
+      message: `Uses the ${scheme} scheme, which can run code or embed content directly`
+    }]
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(trimmed)
+  } catch {
+    return [{ id: 'unparseable', severity: 'medium', message: 'The URL could not be parsed' }]
+  }
+
+  const findings: HeuristicFinding[] = []
+  const hostname = parsed.hostname.toLowerCase()
+  const unicodeHost = toUnicodeHostname(hostname)
+
+  // "https://bank.com@evil.example" sends the user to evil.example.
+  if (parsed.username || parsed.password || /^[a-z]+:\/\/[^/?#]*@/i.test(trimmed)) {
+    findings.push({
+      id: 'credentials-in-url',
+      severity: 'high',
+      message: 'Contains "@" before the host, hiding the real destination'
+    })
+  }
+
+  if (isIpAddress(hostname)) {
+    findings.push({ id: 'ip-host', severity: 'medium', message: `Points at a bare IP address (${hostname})` })
+  }
+
+  if (hostname.split('.').some(label => label.startsWith('xn--'))) {
+    findings.push(hasHomoglyphs(unicodeHost)
+      ? { id: 'homoglyph', severity: 'high', message: `Domain uses look-alike characters: ${unicodeHost}` }
+      : { id: 'punycode', severity: 'medium', message: `Internationalized domain name: ${unicodeHost}` })
+  }
+
+  const subdomains = getSubdomainLabels(hostname)
+  if (!isIpAddress(hostname) && subdomains.length > MAX_SUBDOMAIN_LABELS) {
+    findings.push({
+      id: 'excessive-subdomains',
+      severity: 'medium',
+      message: `${subdomains.length} levels of subdomains (${subdomains.join('.')})`
+    })
+  }
+
+  const tld = getTld(hostname)
+  if (SUSPICIOUS_TLDS.has(tld)) {
+    findings.push({ id: 'suspicious-tld', severity: 'low', message: `Top-level domain .${tld} is frequently abused` })
+  }
+
+  if (URL_SHORTENER_HOSTS.has(hostname.replace(/^www\./, ''))) {
+    findings.push({ id: 'shortener', severity: 'low', message: `${hostname} is a URL shortener that hides the destination` })
+  }
+
+  if (parsed.search.length > MAX_QUERY_LENGTH) {
+    findings.push({ id: 'long-query', severity: 'low', message: `Very long query string (${parsed.search.length} characters)` })
+  } else if (trimmed.length > MAX_URL_LENGTH) {
+    findings.push({ id: 'long-url', severity: 'low', message: `Very long URL (${trimmed.length} characters)` })
+  }
+
+  if (parsed.port && !['80', '443'].includes(parsed.port)) {
+    findings.push({ id: 'unusual-port', severity: 'low', message: `Uses non-standard port ${parsed.port}` })
+  }
+
+  return findings
+}
+
+export const analyzeUrlHeuristics = (url: string): SecurityCheck => {
+  const findings = findUrlHeuristics(url)
+  const has = (severity: HeuristicSeverity) => findings.some(finding => finding.severity === severity)
+
+  if (findings.length === 0) {
+    return {
+      name: 'URL Heuristics',
+      status: 'passed',
+      description: 'Local analysis of the URL structure',
+      details: 'No suspicious URL patterns found',
+      findings: []
+    }
+  }
+
+  return {
+    name: 'URL Heuristics',
+    status: has('high') ? 'failed' : 'warning',
+    description: 'Local analysis of the URL structure',
+    details: `${findings.length} suspicious pattern${findings.length === 1 ? '' : 's'} found`,
+    findings: findings.map(finding => finding.message),
+    // Low-severity patterns alone are common on legitimate sites.
+    confidence: has('high') || has('medium') ? 1 : 0.5
+  }
+}
@@ -0,0 +1,160 @@
+import { captureDeviceLabels } from './cloaking.ts'
+import { getRegistrableDomain } from './domain.ts'
+import type { HeuristicFinding, HeuristicSeverity } from './heuristics.ts'
+import type { CaptureDevice, PageContent, PageForm, SecurityCheck } from './types.ts'
+
+// Signs of credential harvesting in the DOM the sandbox rendered: where
+// password forms send their data, hidden frames, downloads nobody asked for
+// and scripts written not to be read.
+
+// Input names that ask for a secret worth stealing.
+const SECRET_INPUT_NAME = /pass|pwd|card|cvv|cvc|otp|pin|ssn/i
+// Input names that only identify someone. Newsletter and contact forms ask
+// for these and routinely post to a mailing service on another site.
+const IDENTITY_INPUT_NAME = /email|e-mail|user|login|account/i
+
+const OBFUSCATION_PATTERNS: { pattern: RegExp; minMatches: number; label: string }[] = [
+  { pattern: /\b(?:eval|Function)\s*\(\s*(?:atob|unescape|decodeURIComponent|String\.fromCharCode)\s*\(/g, minMatches: 1, label: 'runs decoded strings' },
+  { pattern: /\b_0x[0-9a-f]{4,}\b/gi, minMatches: 10, label: 'obfuscator-style identifiers' },
+  { pattern: /\\x[0-9a-f]{2}|\\u[0-9a-f]{4}/gi, minMatches: 50, label: 'heavily escaped strings' },
+  { pattern: /[A-Za-z0-9+/]{400,}={0,2}/g, minMatches: 1, label: 'large encoded blobs' }
+]
+
+const getHostname = (url: string): string | undefined => {
+  try {
+    return new URL(url).hostname.toLowerCase()
+  } catch {
+    return undefined
+  }
+}
+
+const isSameSite = (hostA: string, hostB: string) => getRegistrableDomain(hostA) === getRegistrableDomain(hostB)
+
+const hasPasswordField = (form: PageForm) => form.inputs.some(input => input.type === 'password')
+
+const asksFor = (form: PageForm, pattern: RegExp) =>
+  form.inputs.some(input => input.type !== 'hidden' && pattern.test(input.name))
+
+const asksForSecrets = (form: PageForm) => hasPasswordField(form) || asksFor(form, SECRET_INPUT_NAME)
+
+const asksForIdentity = (form: PageForm) =>
+  form.inputs.some(input => input.type === 'email') || asksFor(form, IDENTITY_INPUT_NAME)
+
+const getObfuscationSigns = (script: string): string[] =>
+  OBFUSCATION_PATTERNS
+    .filter(({ pattern, minMatches }) => (script.match(pattern)?.length ?? 0) >= minMatches)
+    .map(({ label }) => label)
+
+export const findPageContentIssues = (content: PageContent): HeuristicFinding[] => {
+  const findings: HeuristicFinding[] = []
+  const pageHost = getHostname(content.url)
+
+  const passwordForms = content.forms.filter(hasPasswordField)
+  if (passwordForms.length > 0) {
+    // A login form on its own is ordinary; where it leads is what matters.
+    findings.push({
+      id: 'password-form',
+      severity: 'low',
+      message: `Login form with a password field${passwordForms.some(form => !form.action) ? ', submitted by script' : ''}`
+    })
+    if (content.url.startsWith('http:')) {
+      findings.push({ id: 'password-over-http', severity: 'medium', message: 'Asks for a password on a page served without HTTPS' })
+    }
+  }
+
+  for (const form of content.forms) {
+    const secrets = asksForSecrets(form)
+    if (!secrets && !asksForIdentity(form)) continue
+
+    // Only forms asking for secrets are harvesting material on their own.
+    const severity: HeuristicSeverity = secrets ? 'high' : 'low'
+    const asked = secrets ? 'credentials' : 'contact details'
+    if (/^mailto:/i.test(form.action)) {
+      findings.push({ id: 'form-to-email', severity, message: `Form asking for ${asked} is sent by email to ${form.action.slice(7)}` })
+      continue
+    }
+    const actionHost = form.action ? getHostname(form.action) : undefined
+    if (pageHost && actionHost && !isSameSite(pageHost, actionHost)) {
+      findings.push({
+        id: 'cross-site-form',
+        severity,
+        message: `Form asking for ${asked} posts to another site: ${actionHost}`
+      })
+    }
+  }
+
+  // Frames without a source are a common messaging trick; only hidden frames
+  // loading another site are worth reporting.
+  for (const frame of content.iframes.filter(frame => frame.hidden)) {
+    const frameHost = getHostname(frame.src)
+    if (frameHost && pageHost && !isSameSite(pageHost, frameHost)) {
+      findings.push({ id: 'hidden-iframe', severity: 'medium', message: `Hidden iframe loads ${frameHost}` })
+    }
+  }
+
+  for (const download of content.downloads) {
+    findings.push({ id: 'auto-download', severity: 'high', message: `Started a download on its own: ${download}` })
+  }
+
+  const obfuscated = content.inlineScripts.map(getObfuscationSigns).filter(signs => signs.length > 0)
+  if (obfuscated.length > 0) {
+    const signs = [...new Set(obfuscated.flat())]
+    findings.push({
+      id: 'obfuscated-script',
+      severity: 'medium',
+      message: `${obfuscated.length} obfuscated inline script${obfuscated.length === 1 ? '' : 's'}: ${signs.join(', ')}`
+    })
+  }
+
+  return findings
+}
+
+// Analyzes what each device was shown. Findings seen only on some devices
+// say so, since those pages may be hidden from desktop crawlers.
+export const analyzePageContent = (pages: { device: CaptureDevice; content: PageContent }[]): SecurityCheck => {
+  if (pages.length === 0) {
+    return {
+      name: 'Page Content Analysis',
+      status: 'skipped',
+      description: 'Page content analysis skipped',
+      details: 'The page could not be loaded in the sandbox'
+    }
+  }
+
+  const byMessage = new Map<string, { finding: HeuristicFinding; devices: CaptureDevice[] }>()
+  for (const { device, content } of pages) {
+    for (const finding of findPageContentIssues(content)) {
+      const entry = byMessage.get(finding.message) ?? { finding, devices: [] }
+      entry.devices.push(device)
+      byMessage.set(finding.message, entry)
+    }
+  }
+
+  const entries = [...byMessage.values()]
+  const has = (severity: HeuristicSeverity) => entries.some(({ finding }) => finding.severity === severity)
+
+  if (entries.length === 0) {
+    return {
+      name: 'Page Content Analysis',
+      status: 'passed',
+      description: 'Rendered page checked for credential harvesting',
+      details: 'No credential harvesting indicators found',
+      findings: []
+    }
+  }
+
+  return {
+    name: 'Page Content Analysis',
+    status: has('high') ? 'failed' : 'warning',
+    description: 'Rendered page checked for credential harvesting',
+    details: `${entries.length} indicator${entries.length === 1 ? '' : 's'} found`,
+    findings: entries.map(({ finding, devices }) => (
+      devices.length < pages.length
+        ? `${finding.message} (${devices.map(device => captureDeviceLabels[device]).join(' and ')} only)`
+        : finding.message
+    )),
+    weight: 0.8,
+    // A login form by itself is common on legitimate sites.
+    confidence: has('high') || has('medium') ? 1 : 0.5
+  }
+}
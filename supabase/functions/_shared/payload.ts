@@ -0,0 +1,299 @@
+import type { QrPayload, QrPayloadField, QrPayloadType } from './types.ts'
+
+// Classifies the text decoded from a QR code. The formats follow what the
+// iOS and Android camera apps recognise: the ZXing conventions for WIFI:,
+// MECARD:, SMSTO: and MATMSG:, vCard 2.1-4.0, RFC URIs for tel:, mailto:
+// and geo:, Google Authenticator's otpauth:// and BIP-21 style crypto URIs.
+
+const CRYPTO_SCHEMES: Record<string, string> = {
+  bitcoin: 'Bitcoin',
+  bitcoincash: 'Bitcoin Cash',
+  ethereum: 'Ethereum',
+  litecoin: 'Litecoin',
+  dogecoin: 'Dogecoin',
+  monero: 'Monero',
+  solana: 'Solana',
+  ripple: 'XRP',
+  tron: 'TRON',
+  cardano: 'Cardano'
+}
+
+// Schemes that are scanned as URLs even though they are not web links, so the
+// URL heuristics can flag them.
+const URL_SCHEMES = ['http:', 'https:', 'javascript:', 'data:', 'vbscript:', 'file:']
+
+const BARE_DOMAIN_PATTERN = /^(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?::\d+)?(?:[/?#]\S*)?$/i
+const EMBEDDED_URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"']+/gi
+
+const field = (key: string, label: string, value: string | undefined, sensitive = false): QrPayloadField[] =>
+  value ? [{ key, label, value, ...(sensitive && { sensitive }) }] : []
+
+const payload = (type: QrPayloadType, raw: string, fields: QrPayloadField[], embeddedUrls: string[] = []): QrPayload => ({
+  type,
+  raw,
+  fields,
+  embeddedUrls: [...new Set(embeddedUrls)]
+})
+
+const safeDecode = (value: string) => {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+// Trailing punctuation usually belongs to the surrounding sentence.
+export const findEmbeddedUrls = (text: string): string[] =>
+  (text.match(EMBEDDED_URL_PATTERN) ?? [])
+    .map(match => match.replace(/[.,;:!?)\]]+$/, ''))
+    .map(match => (/^https?:\/\//i.test(match) ? match : `https://${match}`))
+
+// Splits "K:value;K2:value;;" on unescaped semicolons, as used by WIFI:,
+// MECARD: and MATMSG:.
+const parseKeyValueList = (body: string): [string, string][] => {
+  const entries: [string, string][] = []
+  let current = ''
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i]
+    if (char === '\\' && i + 1 < body.length) {
+      current += body[++i]
+    } else if (char === ';') {
+      if (current) entries.push(splitEntry(current))
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (current) entries.push(splitEntry(current))
+  return entries
+}
+
+const splitEntry = (entry: string): [string, string] => {
+  const separator = entry.indexOf(':')
+  return separator === -1
+    ? [entry.toUpperCase(), '']
+    : [entry.slice(0, separator).toUpperCase(), entry.slice(separator + 1)]
+}
+
+const lookup = (entries: [string, string][], key: string) => entries.find(([name]) => name === key)?.[1]
+const lookupAll = (entries: [string, string][], key: string) =>
+  entries.filter(([name]) => name === key).map(([, value]) => value).filter(Boolean)
+
+const parseWifi = (raw: string): QrPayload => {
+  const entries = parseKeyValueList(raw.slice('WIFI:'.length))
+  const security = lookup(entries, 'T')
+  return payload('wifi', raw, [
+    ...field('ssid', 'Network name', lookup(entries, 'S')),
+    ...field('security', 'Security', security || 'nopass'),
+    ...field('password', 'Password', lookup(entries, 'P'), true),
+    ...field('hidden', 'Hidden network', lookup(entries, 'H')?.toLowerCase() === 'true' ? 'Yes' : undefined),
+    ...field('eap', 'EAP method', lookup(entries, 'E')),
+    ...field('identity', 'Identity', lookup(entries, 'I'))
+  ])
+}
+
+const parseMecard = (raw: string): QrPayload => {
+  const entries = parseKeyValueList(raw.slice('MECARD:'.length))
+  const urls = lookupAll(entries, 'URL')
+  const note = lookup(entries, 'NOTE')
+  return payload('mecard', raw, [
+    ...field('name', 'Name', lookup(entries, 'N')?.split(',').reverse().join(' ').trim()),
+    ...field('organization', 'Organization', lookup(entries, 'ORG')),
+    ...lookupAll(entries, 'TEL').flatMap(tel => field('tel', 'Phone', tel)),
+    ...lookupAll(entries, 'EMAIL').flatMap(email => field('email', 'Email', email)),
+    ...urls.flatMap(url => field('url', 'Website', url)),
+    ...field('address', 'Address', lookup(entries, 'ADR')),
+    ...field('note', 'Note', note)
+  ], [...urls.flatMap(findEmbeddedUrls), ...findEmbeddedUrls(note ?? '')])
+}
+
+const unescapeVcard = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1')
+
+const parseVcard = (raw: string): QrPayload => {
+  // Continuation lines start with whitespace (RFC 6350 section 3.2).
+  const lines = raw.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n')
+  const entries: [string, string][] = lines
+    .map(line => {
+      const separator = line.indexOf(':')
+      if (separator === -1) return null
+      // "item1.TEL;TYPE=CELL" -> "TEL"
+      const name = line.slice(0, separator).split(';')[0].replace(/^[^.]+\./, '').toUpperCase()
+      return [name, unescapeVcard(line.slice(separator + 1).trim())] as [string, string]
+    })
+    .filter((entry): entry is [string, string] => entry !== null)
+
+  const urls = lookupAll(entries, 'URL')
+  const note = lookup(entries, 'NOTE')
+  const structuredName = lookup(entries, 'N')?.split(';').slice(0, 2).reverse().join(' ').trim()
+  return payload('vcard', raw, [
+    ...field('name', 'Name', lookup(entries, 'FN') || structuredName),
+    ...field('organization', 'Organization', lookup(entries, 'ORG')?.replace(/;/g, ', ')),
+    ...field('title', 'Title', lookup(entries, 'TITLE')),
+    ...lookupAll(entries, 'TEL').flatMap(tel => field('tel', 'Phone', tel.replace(/^tel:/i, ''))),
+    ...lookupAll(entries, 'EMAIL').flatMap(email => field('email', 'Email', email)),
+    ...urls.flatMap(url => field('url', 'Website', url)),
+    ...field('address', 'Address', lookup(entries, 'ADR')?.split(';').filter(Boolean).join(', ')),
+    ...field('note', 'Note', note)
+  ], [...urls.flatMap(findEmbeddedUrls), ...findEmbeddedUrls(note ?? '')])
+}
+
+// SMSTO:number:body, SMS:number:body and sms:number?body=...
+const parseSms = (raw: string): QrPayload => {
+  let number: string
+  let body: string | undefined
+  if (/^smsto:|^sms:[^?]*:/i.test(raw)) {
+    const [, target = '', ...rest] = raw.split(':')
+    number = target
+    body = rest.join(':')
+  } else {
+    const [target, query = ''] = raw.slice(raw.indexOf(':') + 1).split('?')
+    number = target
+    body = new URLSearchParams(query).get('body') ?? undefined
+  }
+  return payload('sms', raw, [
+    ...field('number', 'Recipient', safeDecode(number)),
+    ...field('body', 'Message', body)
+  ], findEmbeddedUrls(body ?? ''))
+}
+
+const parseTel = (raw: string): QrPayload =>
+  payload('tel', raw, field('number', 'Phone number', safeDecode(raw.slice('tel:'.length))))
+
+const parseMailto = (raw: string): QrPayload => {
+  const [address, query = ''] = raw.slice('mailto:'.length).split('?')
+  const params = new URLSearchParams(query)
+  const body = params.get('body') ?? undefined
+  return payload('email', raw, [
+    ...field('to', 'To', safeDecode(address) || params.get('to') || undefined),
+    ...field('cc', 'Cc', params.get('cc') ?? undefined),
+    ...field('subject', 'Subject', params.get('subject') ?? undefined),
+    ...field('body', 'Message', body)
+  ], findEmbeddedUrls(body ?? ''))
+}
+
+const parseMatmsg = (raw: string): QrPayload => {
+  const entries = parseKeyValueList(raw.slice('MATMSG:'.length))
+  const body = lookup(entries, 'BODY')
+  return payload('email', raw, [
+    ...field('to', 'To', lookup(entries, 'TO')),
+    ...field('subject', 'Subject', lookup(entries, 'SUB')),
+    ...field('body', 'Message', body)
+  ], findEmbeddedUrls(body ?? ''))
+}
+
+const parseGeo = (raw: string): QrPayload => {
+  const [coordinates, query = ''] = raw.slice('geo:'.length).split('?')
+  const [latitude, longitude, altitude] = coordinates.split(';')[0].split(',')
+  return payload('geo', raw, [
+    ...field('latitude', 'Latitude', latitude),
+    ...field('longitude', 'Longitude', longitude),
+    ...field('altitude', 'Altitude', altitude),
+    ...field('query', 'Place', new URLSearchParams(query).get('q') ?? undefined)
+  ])
+}
+
+// otpauth://totp/Issuer:account?secret=...&issuer=...
+const parseOtpauth = (raw: string): QrPayload => {
+  let parsed: URL
+  try {
+    parsed = new URL(raw)
+  } catch {
+    return payload('otpauth', raw, [])
+  }
+  const label = safeDecode(parsed.pathname.replace(/^\/+/, ''))
+  const [labelIssuer, account] = label.includes(':') ? label.split(':', 2) : [undefined, label]
+  const params = parsed.searchParams
+  return payload('otpauth', raw, [
+    ...field('kind', 'Type', parsed.hostname.toUpperCase()),
+    ...field('issuer', 'Issuer', params.get('issuer') ?? labelIssuer),
+    ...field('account', 'Account', account?.trim()),
+    ...field('secret', 'Secret', params.get('secret') ?? undefined, true),
+    ...field('algorithm', 'Algorithm', params.get('algorithm') ?? undefined),
+    ...field('digits', 'Digits', params.get('digits') ?? undefined),
+    ...field('period', 'Period (s)', params.get('period') ?? undefined),
+    ...field('counter', 'Counter', params.get('counter') ?? undefined)
+  ])
+}
+
+// scheme:address[@chain][/function]?amount=...&label=...&message=...
+const parseCrypto = (raw: string, scheme: string): QrPayload => {
+  const [target, query = ''] = raw.slice(scheme.length + 1).replace(/^\/\//, '').split('?')
+  const params = new URLSearchParams(query)
+  const message = params.get('message') ?? undefined
+  return payload('crypto', raw, [
+    ...field('currency', 'Currency', CRYPTO_SCHEMES[scheme]),
+    ...field('address', 'Address', target.split(/[@/]/)[0]),
+    ...field('amount', 'Amount', params.get('amount') ?? params.get('value') ?? undefined),
+    ...field('label', 'Label', params.get('label') ?? undefined),
+    ...field('message', 'Message', message),
+    ...field('recipient', 'Token recipient', params.get('address') ?? undefined)
+  ], findEmbeddedUrls(message ?? ''))
+}
+
+export const parseQrPayload = (data: string): QrPayload => {
+  const raw = data.trim()
+  const lower = raw.toLowerCase()
+  const scheme = lower.match(/^([a-z][a-z0-9+.-]*):/)?.[1]
+
+  if (lower.startsWith('wifi:')) return parseWifi(raw)
+  if (lower.startsWith('begin:vcard')) return parseVcard(raw)
+  if (lower.startsWith('mecard:')) return parseMecard(raw)
+  if (lower.startsWith('matmsg:')) return parseMatmsg(raw)
+  if (scheme === 'smsto' || scheme === 'sms' || scheme === 'mms' || scheme === 'mmsto') return parseSms(raw)
+  if (scheme === 'tel') return parseTel(raw)
+  if (scheme === 'mailto') return parseMailto(raw)
+  if (scheme === 'geo') return parseGeo(raw)
+  if (scheme === 'otpauth' || scheme === 'otpauth-migration') return parseOtpauth(raw)
+  if (scheme && CRYPTO_SCHEMES[scheme]) return parseCrypto(raw, scheme)
+
+  if (URL_SCHEMES.some(prefix => lower.startsWith(prefix))) {
+    return { ...payload('url', raw, field('url', 'URL', raw)), url: raw }
+  }
+  // Camera apps open "example.com/menu" as a link, so treat it as one.
+  if (BARE_DOMAIN_PATTERN.test(raw)) {
+    const url = `https://${raw}`
+    return { ...payload('url', raw, field('url', 'URL', url)), url }
+  }
+
+  return payload('text', raw, field('text', 'Text', raw), findEmbeddedUrls(raw))
+}
+
+export const payloadTypeLabels: Record<QrPayloadType, string> = {
+  url: 'Web Link',
+  wifi: 'Wi-Fi Network',
+  vcard: 'Contact Card (vCard)',
+  mecard: 'Contact Card (MeCard)',
+  sms: 'Text Message',
+  tel: 'Phone Call',
+  email: 'Email',
+  geo: 'Location',
+  otpauth: 'Authenticator Setup',
+  crypto: 'Cryptocurrency Payment',
+  text: 'Plain Text'
+}
+
+export const getPayloadField = (payload: QrPayload, key: string): string | undefined =>
+  payload.fields.find(entry => entry.key === key)?.value
+
+export const getPayloadFields = (payload: QrPayload, key: string): string[] =>
+  payload.fields.filter(entry => entry.key === key).map(entry => entry.value)
+
+// Stands in for sensitive values in stored QR contents.
+export const REDACTED_VALUE = 'REDACTED'
+
+// The `P:` entry of a Wi-Fi code, up to the next unescaped separator.
+const WIFI_PASSWORD_ENTRY = /(^WIFI:|(?<!\\);)P:(?:\\.|[^\\;])*/gi
+// Authenticator secrets; migration codes carry every account's secret in `data`.
+const OTPAUTH_SECRET_PARAM = /([?&](?:secret|data)=)[^&#]*/gi
+
+// The QR contents with the values of sensitive fields (Wi-Fi passwords,
+// authenticator secrets) replaced, for storing alongside a scan. Everything
+// the checks look at besides those values stays as it was.
+export const redactQrData = (data: string): string => {
+  const { type, raw } = parseQrPayload(data)
+  if (type === 'wifi') return raw.replace(WIFI_PASSWORD_ENTRY, `$1P:${REDACTED_VALUE}`)
+  if (type === 'otpauth') return raw.replace(OTPAUTH_SECRET_PARAM, `$1${REDACTED_VALUE}`)
+  return data
+}
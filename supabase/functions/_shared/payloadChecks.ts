@@ -0,0 +1,276 @@
+import { analyzeBrandImpersonation, resolveProtectedBrands } from './brands.ts'
+import { analyzeUrlHeuristics } from './heuristics.ts'
+import { getPayloadField, getPayloadFields } from './payload.ts'
+import type { CheckStatus, ProtectedBrand, QrPayload, SecurityCheck } from './types.ts'
+
+// Local checks for QR codes that are not web links. Each payload type gets a
+// check for the action the phone would offer (join a network, call a number,
+// send money, ...), plus the URL checks for any links embedded in it.
+
+// Premium-rate ranges in the markets QR Shield is mostly used in.
+const PREMIUM_RATE_PATTERNS: [RegExp, string][] = [
+  [/^(\+?1)?(900|976)\d{7}$/, 'US/Canada 900 premium-rate number'],
+  [/^(\+44|0)9\d{9}$/, 'UK 09 premium-rate number'],
+  [/^(\+49|0)(900|137|138)\d+$/, 'German premium-rate number'],
+  [/^(\+33|0)89\d{7}$/, 'French premium-rate number'],
+  [/^(\+61)?190\d{7}$/, 'Australian 190 premium-rate number'],
+  [/^(\+34)?80[36]\d{6}$/, 'Spanish premium-rate number']
+]
+
+// Operators bill replies to short codes at premium rates.
+const SHORT_CODE_PATTERN = /^\d{3,6}$/
+
+const BITCOIN_ADDRESS = /^(bc1[ac-hj-np-z02-9]{11,71}|[13][a-km-zA-HJ-NP-Z1-9]{25,34})$/
+const ETHEREUM_ADDRESS = /^0x[0-9a-fA-F]{40}$/
+
+const worstStatus = (statuses: CheckStatus[]): CheckStatus =>
+  statuses.includes('failed') ? 'failed' : statuses.includes('warning') ? 'warning' : 'passed'
+
+const normalizeNumber = (number: string) => number.replace(/[\s().-]/g, '')
+
+const findPremiumRate = (number: string) =>
+  PREMIUM_RATE_PATTERNS.find(([pattern]) => pattern.test(normalizeNumber(number)))?.[1]
+
+const wifiCheck = (payload: QrPayload): SecurityCheck => {
+  const security = (getPayloadField(payload, 'security') ?? 'nopass').toUpperCase()
+  const password = getPayloadField(payload, 'password') ?? ''
+  const ssid = getPayloadField(payload, 'ssid') ?? 'Unnamed network'
+  const findings: string[] = []
+  let status: CheckStatus = 'passed'
+
+  if (security === 'NOPASS' || security === '') {
+    status = 'warning'
+    findings.push('Open network: anyone nearby can see unencrypted traffic, and look-alike hotspots are easy to set up')
+  } else if (security === 'WEP') {
+    status = 'warning'
+    findings.push('WEP encryption can be broken in minutes')
+  } else if (password.length > 0 && password.length < 8) {
+    status = 'warning'
+    findings.push('The password is shorter than WPA allows, so the code may be malformed')
+  }
+  if (getPayloadField(payload, 'hidden')) {
+    findings.push('Hidden networks make the phone broadcast the name while looking for it')
+  }
+
+  return {
+    name: 'Wi-Fi Network Security',
+    status,
+    description: `Joins the Wi-Fi network "${ssid}"`,
+    details: status === 'passed'
+      ? `${security} encrypted network - only join it if you trust who placed the code`
+      : `${security === 'NOPASS' ? 'Open' : security} network`,
+    findings,
+    confidence: 0.6
+  }
+}
+
+const phoneCheck = (number: string, action: string): SecurityCheck => {
+  const normalized = normalizeNumber(number)
+  const premium = findPremiumRate(normalized)
+
+  // tel: links with * or # dial USSD codes, which can change phone settings.
+  if (/[*#]/.test(normalized)) {
+    return {
+      name: 'Phone Number',
+      status: 'failed',
+      description: `Dials the service code ${number}`,
+      details: 'USSD codes run commands on the phone or SIM and can forward calls or wipe settings',
+      findings: ['Contains * or #, which makes it a service code rather than a phone number']
+    }
+  }
+  if (premium) {
+    return {
+      name: 'Phone Number',
+      status: 'warning',
+      description: `${action} ${number}`,
+      details: `${premium} - calls and messages can be charged at high rates`,
+      findings: [premium]
+    }
+  }
+  return {
+    name: 'Phone Number',
+    status: 'passed',
+    description: `${action} ${number}`,
+    details: 'Not a known premium-rate or service number'
+  }
+}
+
+const smsCheck = (payload: QrPayload): SecurityCheck => {
+  const number = getPayloadField(payload, 'number') ?? ''
+  const body = getPayloadField(payload, 'body')
+  const check = phoneCheck(number, 'Sends a text message to')
+  const findings = [...(check.findings ?? [])]
+
+  if (SHORT_CODE_PATTERN.test(normalizeNumber(number))) {
+    findings.push('Short codes can sign you up for paid subscriptions')
+  }
+  if (body && /\b(subscribe|join|yes|start)\b/i.test(body)) {
+    findings.push(`The prefilled message "${body}" looks like a subscription opt-in`)
+  }
+
+  const status = findings.length > 0 ? worstStatus([check.status, 'warning']) : 'passed'
+  return {
+    ...check,
+    name: 'Text Message',
+    status,
+    details: check.status !== 'passed'
+      ? check.details
+      : status === 'passed' ? 'Review the prefilled message before sending' : 'Replies to this number may be billed or start a subscription',
+    findings
+  }
+}
+
+const emailCheck = (payload: QrPayload, customBrands: ProtectedBrand[]): SecurityCheck => {
+  const recipient = getPayloadField(payload, 'to') ?? ''
+  const domain = recipient.split('@')[1]?.split(/[,;]/)[0]?.trim()
+  const brandCheck = domain ? analyzeBrandImpersonation(`https://${domain}`, customBrands) : null
+
+  return {
+    name: 'Email Recipient',
+    status: brandCheck?.status ?? 'warning',
+    description: `Drafts an email to ${recipient || 'an unspecified recipient'}`,
+    details: brandCheck
+      ? brandCheck.status === 'passed' ? 'Recipient domain does not imitate a protected brand' : brandCheck.details
+      : 'No valid recipient address',
+    findings: brandCheck?.findings ?? [],
+    impersonatedBrand: brandCheck?.impersonatedBrand
+  }
+}
+
+const geoCheck = (payload: QrPayload): SecurityCheck => {
+  const latitude = Number(getPayloadField(payload, 'latitude'))
+  const longitude = Number(getPayloadField(payload, 'longitude'))
+  const valid = Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+
+  return {
+    name: 'Location',
+    status: valid ? 'passed' : 'warning',
+    description: 'Opens a location in the maps app',
+    details: valid ? `${latitude}, ${longitude}` : 'Coordinates are out of range'
+  }
+}
+
+// Scanning an otpauth code adds an account to the authenticator app. Phishing
+// kits use this to enroll the victim's phone into an attacker's 2FA setup.
+const otpauthCheck = (payload: QrPayload, customBrands: ProtectedBrand[]): SecurityCheck => {
+  const issuer = getPayloadField(payload, 'issuer')
+  const findings = [
+    'Only scan setup codes shown by the service itself while you are enabling two-factor authentication'
+  ]
+  if (!getPayloadField(payload, 'secret')) {
+    findings.push('No secret is included, so the code cannot set up an authenticator')
+  }
+  const issuerBrand = issuer && resolveProtectedBrands(customBrands).find(brand => brand.name.toLowerCase() === issuer.toLowerCase())
+  if (issuerBrand) {
+    findings.push(`Claims to be ${issuerBrand.name} - make sure you started 2FA setup on ${issuerBrand.domains[0]}`)
+  }
+
+  return {
+    name: 'Authenticator Enrollment',
+    status: 'warning',
+    description: `Adds a one-time password account${issuer ? ` for ${issuer}` : ''} to your authenticator app`,
+    details: 'Codes from emails, posters or messages are a known account takeover technique',
+    findings,
+    confidence: 0.6
+  }
+}
+
+const cryptoCheck = (payload: QrPayload): SecurityCheck => {
+  const currency = getPayloadField(payload, 'currency') ?? 'cryptocurrency'
+  const address = getPayloadField(payload, 'address') ?? ''
+  const amount = getPayloadField(payload, 'amount')
+  const findings = ['Crypto transfers cannot be reversed or disputed']
+
+  const pattern = currency === 'Bitcoin' ? BITCOIN_ADDRESS : currency === 'Ethereum' ? ETHEREUM_ADDRESS : null
+  const malformed = pattern !== null && !pattern.test(address)
+  if (malformed) {
+    findings.push(`"${address}" is not a valid ${currency} address`)
+  }
+  if (amount) {
+    findings.push(`Requests a prefilled amount of ${amount}`)
+  }
+
+  return {
+    name: 'Cryptocurrency Payment',
+    status: malformed ? 'failed' : 'warning',
+    description: `Requests a payment in ${currency}${amount ? ` of ${amount}` : ''}`,
+    details: 'Check the recipient address with the payee through another channel before paying',
+    findings,
+    confidence: malformed ? 1 : 0.5
+  }
+}
+
+const contactCheck = (payload: QrPayload): SecurityCheck => {
+  const name = getPayloadField(payload, 'name') ?? 'an unnamed contact'
+  const premiumNumbers = getPayloadFields(payload, 'tel').filter(findPremiumRate)
+
+  return {
+    name: 'Contact Card',
+    status: premiumNumbers.length > 0 ? 'warning' : 'passed',
+    description: `Adds ${name} to your contacts`,
+    details: premiumNumbers.length > 0
+      ? 'Includes premium-rate phone numbers'
+      : 'Contact details only - links inside are checked separately',
+    findings: premiumNumbers.map(number => `${number}: ${findPremiumRate(number)}`)
+  }
+}
+
+const textCheck = (payload: QrPayload): SecurityCheck => ({
+  name: 'Plain Text',
+  status: 'passed',
+  description: 'Displays text without opening anything',
+  details: payload.embeddedUrls.length > 0
+    ? 'The text contains links - they are checked separately'
+    : 'No links or actions found'
+})
+
+// Runs the URL heuristics and brand comparison on every link inside the
+// payload and folds them into one check.
+const embeddedLinksCheck = (urls: string[], customBrands: ProtectedBrand[]): SecurityCheck | null => {
+  if (urls.length === 0) return null
+
+  const results = urls.map(url => {
+    const checks = [analyzeUrlHeuristics(url), analyzeBrandImpersonation(url, customBrands)]
+    return { url, status: worstStatus(checks.map(check => check.status)), checks }
+  })
+  const findings = results.flatMap(({ url, checks }) =>
+    checks.flatMap(check => (check.status === 'passed' ? [] : (check.findings ?? [check.details ?? check.description]).map(finding => `${url}: ${finding}`)))
+  )
+  const status = worstStatus(results.map(result => result.status))
+
+  return {
+    name: 'Embedded Links',
+    status,
+    description: `${urls.length} link${urls.length === 1 ? '' : 's'} found inside the QR code`,
+    details: status === 'passed'
+      ? 'No suspicious patterns in the embedded links'
+      : 'Some embedded links look suspicious - avoid opening them',
+    findings,
+    impersonatedBrand: results.flatMap(result => result.checks).find(check => check.impersonatedBrand)?.impersonatedBrand
+  }
+}
+
+// Checks for every payload type except `url`, which goes through the full
+// security scan.
+export const analyzeQrPayload = (payload: QrPayload, customBrands: ProtectedBrand[] = []): SecurityCheck[] => {
+  const checks: SecurityCheck[] = []
+
+  switch (payload.type) {
+    case 'wifi': checks.push(wifiCheck(payload)); break
+    case 'sms': checks.push(smsCheck(payload)); break
+    case 'tel': checks.push(phoneCheck(getPayloadField(payload, 'number') ?? '', 'Calls')); break
+    case 'email': checks.push(emailCheck(payload, customBrands)); break
+    case 'geo': checks.push(geoCheck(payload)); break
+    case 'otpauth': checks.push(otpauthCheck(payload, customBrands)); break
+    case 'crypto': checks.push(cryptoCheck(payload)); break
+    case 'vcard':
+    case 'mecard': checks.push(contactCheck(payload)); break
+    case 'text': checks.push(textCheck(payload)); break
+    case 'url': break
+  }
+
+  const links = embeddedLinksCheck(payload.embeddedUrls, customBrands)
+  if (links) checks.push(links)
+
+  return checks.map(check => ({ ...check, providerId: 'payload' }))
+}
@@ -0,0 +1,124 @@
+import type { ApiKeyName, ApiKeys, ProviderDefinition } from './types.ts'
+
+// Metadata for every threat-intel source the security-scan function knows
+// about. The edge function attaches a `run` implementation to each entry,
+// while Settings and the analyzer read the same list to render key inputs
+// and progress tiles.
+export const providerDefinitions: ProviderDefinition[] = [
+  {
+    id: 'virustotal',
+    name: 'VirusTotal',
+    description: 'Required for malware and threat detection analysis',
+    category: 'reputation',
+    requiredKeys: ['VIRUSTOTAL_API_KEY'],
+    essential: true,
+    signupUrl: 'https://www.virustotal.com/gui/join-us',
+    api: 'VirusTotal v3 API',
+    timeoutMs: 35000,
+    cacheTtlMs: 60 * 60 * 1000
+  },
+  {
+    id: 'safe-browsing',
+    name: 'Google Safe Browsing',
+    description: 'Google\'s threat detection and safe browsing service',
+    category: 'reputation',
+    requiredKeys: ['GOOGLE_SAFE_BROWSING_API_KEY'],
+    essential: true,
+    signupUrl: 'https://developers.google.com/safe-browsing/v4/get-started',
+    api: 'Google Safe Browsing v4 API',
+    timeoutMs: 8000,
+    cacheTtlMs: 30 * 60 * 1000
+  },
+  {
+    id: 'urlscan',
+    name: 'URLScan.io',
+    description: 'Deep website analysis and screenshot capture',
+    category: 'analysis',
+    requiredKeys: ['URLSCAN_API_KEY'],
+    essential: false,
+    signupUrl: 'https://urlscan.io/user/signup',
+    api: 'URLScan.io API',
+    timeoutMs: 40000,
+    cacheTtlMs: 60 * 60 * 1000
+  },
+  {
+    id: 'ipinfo',
+    name: 'IPInfo',
+    description: 'IP geolocation and network information',
+    category: 'network',
+    requiredKeys: ['IPINFO_API_KEY'],
+    essential: false,
+    signupUrl: 'https://ipinfo.io/signup',
+    api: 'IPInfo API',
+    timeoutMs: 5000,
+    cacheTtlMs: 24 * 60 * 60 * 1000
+  },
+  {
+    id: 'rdap',
+    name: 'Domain Registration',
+    description: 'Domain age, registrar and status from the registry over RDAP',
+    category: 'network',
+    requiredKeys: [],
+    essential: false,
+    api: 'RDAP',
+    timeoutMs: 8000
+  },
+  {
+    id: 'browserless',
+    name: 'Browserless',
+    description: 'Sandbox capture as desktop and mobile browsers, checked for cloaking and credential harvesting',
+    category: 'sandbox',
+    requiredKeys: ['BROWSERLESS_API_KEY'],
+    essential: false,
+    signupUrl: 'https://www.browserless.io/sign-up',
+    api: 'Browserless API',
+    timeoutMs: 40000
+  },
+  {
+    id: 'heuristics',
+    name: 'URL Heuristics',
+    description: 'Local checks for deceptive URL structure',
+    category: 'local',
+    requiredKeys: [],
+    essential: false,
+    timeoutMs: 1000
+  },
+  {
+    id: 'brand-protection',
+    name: 'Brand Protection',
+    description: 'Typosquat and brand impersonation detection',
+    category: 'local',
+    requiredKeys: [],
+    essential: false,
+    timeoutMs: 1000
+  },
+  {
+    // Runs in the browser for QR codes that are not web links; the
+    // security-scan function never sees those payloads.
+    id: 'payload',
+    name: 'QR Payload Analysis',
+    description: 'Checks for Wi-Fi, contact, message, payment and other non-URL QR codes',
+    category: 'local',
+    requiredKeys: [],
+    essential: false,
+    timeoutMs: 1000
+  },
+  {
+    id: 'transport',
+    name: 'Transport Security',
+    description: 'TLS certificate and protocol inspection',
+    category: 'local',
+    requiredKeys: [],
+    essential: false,
+    timeoutMs: 6000
+  }
+]
+
+export const getProviderDefinition = (id: string): ProviderDefinition | undefined =>
+  providerDefinitions.find(provider => provider.id === id)
+
+export const hasRequiredKeys = (provider: ProviderDefinition, apiKeys: ApiKeys): boolean =>
+  provider.requiredKeys.every(key => Boolean(apiKeys[key]?.trim()))
+
+// Every API key any provider needs, in provider order.
+export const apiKeyNames: ApiKeyName[] = providerDefinitions.flatMap(provider => provider.requiredKeys)
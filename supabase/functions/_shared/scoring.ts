@@ -0,0 +1,109 @@
+import type { CheckStatus, OverallRisk, RiskAssessment, RiskReason, SecurityCheck } from './types.ts'
+
+// Single risk model used by the security-scan function, the analyzer's risk
+// meter and the downloadable report. A scan starts at 100 and every failed
+// or warning check deducts points scaled by how much we trust its source
+// (weight) and how sure that source is about this verdict (confidence).
+
+const STATUS_PENALTY: Partial<Record<CheckStatus, number>> = {
+  failed: 60,
+  warning: 25
+}
+
+// Checks that carry no verdict either way.
+const UNANSWERED: CheckStatus[] = ['pending', 'timeout', 'error', 'skipped']
+
+export const DEFAULT_CHECK_WEIGHT = 0.5
+
+// How much a verdict from each provider should move the score.
+export const providerWeights: Record<string, number> = {
+  'virustotal': 1,
+  'safe-browsing': 1,
+  'urlscan': 0.8,
+  'browserless': 0.3,
+  'ipinfo': 0.2,
+  'rdap': 0.9,
+  'transport': 0.4,
+  'heuristics': 0.7,
+  'brand-protection': 0.9,
+  'payload': 0.8
+}
+
+const HIGH_RISK_BELOW = 50
+const MEDIUM_RISK_BELOW = 80
+
+// Weighted evidence needed for full confidence: two full-weight reputation
+// sources answering is treated as a complete picture.
+const FULL_COVERAGE_WEIGHT = 2
+
+const threatTypeConfidence: Record<string, number> = {
+  MALWARE: 1,
+  SOCIAL_ENGINEERING: 1,
+  UNWANTED_SOFTWARE: 0.8,
+  POTENTIALLY_HARMFUL_APPLICATION: 0.7
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+export const getCheckWeight = (check: SecurityCheck): number =>
+  check.weight ?? providerWeights[check.providerId ?? ''] ?? DEFAULT_CHECK_WEIGHT
+
+// A single engine hit is often a false positive; five or more is treated as
+// certain.
+export const getCheckConfidence = (check: SecurityCheck): number => {
+  if (check.confidence !== undefined) return check.confidence
+  if (check.engines && check.engines.total > 0) {
+    return check.engines.positives > 0 ? Math.min(1, 0.3 + check.engines.positives * 0.15) : 1
+  }
+  if (check.threatType) {
+    return threatTypeConfidence[check.threatType] ?? 0.8
+  }
+  return 1
+}
+
+const summarize = (check: SecurityCheck): string => {
+  if (check.engines && check.engines.positives > 0) {
+    return `${check.engines.positives} of ${check.engines.total} engines flagged the URL`
+  }
+  if (check.threatType) {
+    return `Listed as ${check.threatType.toLowerCase().replace(/_/g, ' ')}`
+  }
+  return check.details || check.description
+}
+
+export const riskFromScore = (score: number): OverallRisk =>
+  score < HIGH_RISK_BELOW ? 'HIGH' : score < MEDIUM_RISK_BELOW ? 'MEDIUM' : 'LOW'
+
+export const assessRisk = (checks: SecurityCheck[]): RiskAssessment => {
+  const reasons: RiskReason[] = checks
+    .filter(check => STATUS_PENALTY[check.status] !== undefined)
+    .map(check => {
+      const weight = getCheckWeight(check)
+      const confidence = getCheckConfidence(check)
+      return {
+        checkName: check.name,
+        providerId: check.providerId,
+        target: check.target,
+        status: check.status,
+        weight,
+        confidence: round(confidence),
+        impact: Math.round(STATUS_PENALTY[check.status] * weight * confidence),
+        summary: summarize(check)
+      }
+    })
+    .filter(reason => reason.impact > 0)
+    .sort((a, b) => b.impact - a.impact)
+
+  const answered = checks.filter(check => !UNANSWERED.includes(check.status))
+  const coverage = answered.reduce((sum, check) => sum + getCheckWeight(check), 0)
+  // With no answers nothing was deducted, but nothing was vouched for either.
+  const score = Math.max(0, 100 - reasons.reduce((sum, reason) => sum + reason.impact, 0))
+
+  return {
+    score,
+    overallRisk: riskFromScore(score),
+    confidence: Math.round(Math.min(1, coverage / FULL_COVERAGE_WEIGHT) * 100),
+    verdict: answered.length > 0,
+    reasons
+  }
+}
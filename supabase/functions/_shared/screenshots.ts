@@ -0,0 +1,29 @@
+import type { SecurityCheck } from './types.ts'
+
+// Sandbox screenshots live in a private Storage bucket. Checks and their
+// captures point at them with `screenshotPath`; `screenshot` then only holds
+// a signed URL that expires, so it is dropped before a check is stored.
+export const SCREENSHOT_BUCKET = 'scan-screenshots'
+
+export const SCREENSHOT_URL_TTL_SECONDS = 60 * 60
+
+const withoutSignedUrl = <T extends { screenshot?: string; screenshotPath?: string }>(item: T): T => {
+  if (!item.screenshotPath) return item
+  const { screenshot: _signedUrl, ...rest } = item
+  return rest as T
+}
+
+export const withoutSignedScreenshots = (checks: SecurityCheck[]): SecurityCheck[] =>
+  checks.map(check => {
+    const stored = withoutSignedUrl(check)
+    return check.captures ? { ...stored, captures: check.captures.map(withoutSignedUrl) } : stored
+  })
+
+// Every stored screenshot a check refers to, its captures' included.
+export const getScreenshotPaths = (checks: SecurityCheck[]): string[] => [
+  ...new Set(
+    checks
+      .flatMap(check => [check.screenshotPath, ...(check.captures ?? []).map(capture => capture.screenshotPath)])
+      .filter((path): path is string => Boolean(path))
+  )
+]
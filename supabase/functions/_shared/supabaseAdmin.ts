@@ -0,0 +1,8 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Edge-only: needs the service role key, which never reaches the browser.
+// Bypasses RLS, so only use it for rows the function itself vouches for.
+export const createAdminClient = () =>
+  createClient(Deno.env.get('SUPABASE_URL') ?? '', Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '', {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
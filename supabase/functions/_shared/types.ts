@@ -0,0 +1,316 @@
+// Types shared between the edge functions and the web client.
+// Keep this file free of Deno- and browser-specific APIs.
+
+// `timeout` marks a provider that did not answer within its deadline;
+// `error` one that failed, e.g. with an exhausted quota; `skipped` a check
+// that answered but had nothing to judge, such as a registry without RDAP.
+// None of them is a verdict: they are reported to the user but never count
+// towards the risk level.
+export type CheckStatus = 'pending' | 'passed' | 'failed' | 'warning' | 'timeout' | 'error' | 'skipped'
+
+// Per-engine verdicts in the shape of VirusTotal's URL report, which the
+// analyzer and the downloadable report both render.
+export interface EngineResult {
+  detected: boolean;
+  result: string;
+  version?: string;
+  update?: string;
+}
+
+export interface EngineReport {
+  scans: Record<string, EngineResult>;
+  positives: number;
+  total: number;
+  scan_date?: string;
+  permalink?: string;
+}
+
+export interface SecurityCheck {
+  name: string;
+  status: CheckStatus;
+  description: string;
+  details?: string;
+  engines?: EngineReport;
+  // Image URL to show. For sandbox captures this is a short-lived signed URL
+  // of the file at `screenshotPath`, which is what gets stored.
+  screenshot?: string;
+  screenshotPath?: string;
+  // The same page as seen by several devices, shown side by side.
+  captures?: PageCapture[];
+  // Where the page ended up after the provider followed it.
+  finalUrl?: string;
+  contactedDomains?: string[];
+  // Link to the provider's own report for this scan.
+  reportUrl?: string;
+  // Individual indicators behind the check's verdict, one sentence each.
+  findings?: string[];
+  // Name of the protected brand the URL appears to imitate.
+  impersonatedBrand?: string;
+  // Threat category reported by list-based providers such as Safe Browsing.
+  threatType?: string;
+  // Optional overrides for the risk model; see scoring.ts for the defaults.
+  weight?: number;
+  confidence?: number;
+  providerId?: string;
+  // Which URL of the redirect chain the check looked at.
+  target?: ScanTarget;
+  // When the verdict was reused from an earlier scan of the same URL rather
+  // than fetched from the provider.
+  cachedAt?: string;
+  // TLS certificate the server presented, for the transport check.
+  certificate?: CertificateInfo;
+  // Registry data for the URL's registrable domain.
+  domainRegistration?: DomainRegistration;
+}
+
+// What the registry publishes over RDAP about a registrable domain. Dates
+// are ISO strings.
+export interface DomainRegistration {
+  domain: string;
+  createdAt?: string;
+  updatedAt?: string;
+  expiresAt?: string;
+  registrar?: string;
+  // EPP status flags such as "client transfer prohibited".
+  statuses: string[];
+  nameservers: string[];
+}
+
+// Leaf certificate of a TLS connection. Dates are ISO strings.
+export interface CertificateInfo {
+  subject?: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  subjectAltNames: string[];
+  // Negotiated protocol, e.g. "TLSv1.3".
+  protocol?: string;
+  selfSigned: boolean;
+  // Why the chain was not trusted, when it was not.
+  authorizationError?: string;
+}
+
+export type CaptureDevice = 'desktop' | 'iphone' | 'android'
+
+// One sandbox visit of a page, posing as a particular device. Phishing kits
+// often serve phones something different from desktop crawlers.
+export interface PageCapture {
+  device: CaptureDevice;
+  finalUrl?: string;
+  title?: string;
+  // Number of elements in the rendered DOM.
+  domSize?: number;
+  // 64-bit average hash of the screenshot, as hex, for comparing captures.
+  imageHash?: string;
+  // Signed URL and storage path, as on SecurityCheck.
+  screenshot?: string;
+  screenshotPath?: string;
+  // Why the capture failed, when it did.
+  error?: string;
+}
+
+// What the sandbox pulls out of a rendered page for content analysis. Only
+// the resulting findings are stored with a scan.
+export interface PageContent {
+  // Where the page ended up; form actions are judged against it.
+  url: string;
+  forms: PageForm[];
+  iframes: PageFrame[];
+  // Bodies of inline scripts, each cut to a maximum length.
+  inlineScripts: string[];
+  // URLs the page started downloading without being asked.
+  downloads: string[];
+}
+
+export interface PageForm {
+  // Absolute URL the form submits to, or empty when password fields sit
+  // outside any form and can only be sent by script.
+  action: string;
+  method: string;
+  inputs: { type: string; name: string }[];
+}
+
+export interface PageFrame {
+  src: string;
+  // Not displayed, fully transparent or no bigger than a couple of pixels.
+  hidden: boolean;
+}
+
+// The literal URL from the QR code, or where its redirect chain ends.
+export type ScanTarget = 'original' | 'final'
+
+// How a hop was reached from the one before it.
+export type RedirectKind = 'http' | 'meta-refresh' | 'javascript'
+
+export interface RedirectHop {
+  url: string;
+  // HTTP status the hop answered with, when it was fetched.
+  status?: number;
+  via?: RedirectKind;
+}
+
+export type RedirectStopReason = 'hop-limit' | 'loop' | 'unsupported-scheme' | 'blocked' | 'timeout' | 'error'
+
+export interface RedirectChain {
+  hops: RedirectHop[];
+  finalUrl: string;
+  // Set when resolution ended before reaching a page that stops redirecting.
+  stopReason?: RedirectStopReason;
+  error?: string;
+}
+
+// What a decoded QR code contains. Only `url` payloads go through the
+// security-scan function; the rest get local, type-specific checks.
+export type QrPayloadType =
+  | 'url'
+  | 'wifi'
+  | 'vcard'
+  | 'mecard'
+  | 'sms'
+  | 'tel'
+  | 'email'
+  | 'geo'
+  | 'otpauth'
+  | 'crypto'
+  | 'text'
+
+export interface QrPayloadField {
+  key: string;
+  label: string;
+  value: string;
+  // Passwords and secrets are masked until the user reveals them.
+  sensitive?: boolean;
+}
+
+export interface QrPayload {
+  type: QrPayloadType;
+  raw: string;
+  fields: QrPayloadField[];
+  // The URL to scan, for `url` payloads.
+  url?: string;
+  // Links found inside other payload types, e.g. a vCard website.
+  embeddedUrls: string[];
+}
+
+export type ApiKeyName =
+  | 'VIRUSTOTAL_API_KEY'
+  | 'GOOGLE_SAFE_BROWSING_API_KEY'
+  | 'URLSCAN_API_KEY'
+  | 'IPINFO_API_KEY'
+  | 'BROWSERLESS_API_KEY'
+
+export type ApiKeys = Partial<Record<ApiKeyName, string>>
+
+export type ApiKeyValidationStatus = 'valid' | 'invalid' | 'quota-exceeded' | 'error'
+
+// Request allowance for one period, as far as the provider reports it.
+export interface ApiKeyQuota {
+  period: string;
+  used?: number;
+  limit?: number;
+  remaining?: number;
+}
+
+// Outcome of the validate-api-key function for one key.
+export interface ApiKeyValidation {
+  keyName: ApiKeyName;
+  status: ApiKeyValidationStatus;
+  message: string;
+  quotas?: ApiKeyQuota[];
+  validatedAt: string;
+}
+
+export interface ProtectedBrand {
+  name: string;
+  // Official registrable domains, e.g. ['paypal.com'].
+  domains: string[];
+  // Extra words that should not appear in unofficial hostnames.
+  keywords?: string[];
+}
+
+// User preferences sent with every scan request.
+export interface ScanOptions {
+  protectedBrands?: ProtectedBrand[];
+  // Domains registered fewer days ago than this are flagged.
+  domainAgeThresholdDays?: number;
+}
+
+export type ProviderCategory = 'reputation' | 'analysis' | 'sandbox' | 'network' | 'local'
+
+export interface ProviderDefinition {
+  id: string;
+  name: string;
+  description: string;
+  category: ProviderCategory;
+  // API keys that must all be configured for the provider to run.
+  // Providers without keys always run.
+  requiredKeys: ApiKeyName[];
+  // Whether Settings should flag the provider's keys as required.
+  essential: boolean;
+  signupUrl?: string;
+  // External API the provider calls, as named in downloaded reports.
+  api?: string;
+  timeoutMs: number;
+  // How long a completed verdict is reused for the same URL. Providers
+  // without one run on every scan.
+  cacheTtlMs?: number;
+}
+
+export type ProviderOutcomeStatus = 'completed' | 'error' | 'timeout'
+
+export interface ProviderOutcome {
+  providerId: string;
+  target?: ScanTarget;
+  status: ProviderOutcomeStatus;
+  durationMs: number;
+  checks: SecurityCheck[];
+  // Set when the outcome came from the verdict cache.
+  cachedAt?: string;
+}
+
+export type OverallRisk = 'LOW' | 'MEDIUM' | 'HIGH'
+
+export interface RiskReason {
+  checkName: string;
+  providerId?: string;
+  target?: ScanTarget;
+  status: CheckStatus;
+  weight: number;
+  confidence: number;
+  // Points deducted from the score.
+  impact: number;
+  summary: string;
+}
+
+export interface RiskAssessment {
+  // 0-100, higher is safer.
+  score: number;
+  overallRisk: OverallRisk;
+  // 0-100, how much of the expected evidence the scan actually gathered.
+  confidence: number;
+  // False when no check answered, e.g. every provider timed out. The score
+  // and risk level then only say that nothing was found.
+  verdict: boolean;
+  reasons: RiskReason[];
+}
+
+export type ProviderSummary = Omit<ProviderOutcome, 'checks'>
+
+export interface ScanResult {
+  results: SecurityCheck[];
+  overallRisk: OverallRisk;
+  risk: RiskAssessment;
+  providers: ProviderSummary[];
+  redirectChain?: RedirectChain;
+}
+
+// Events emitted by security-scan when the client asks for
+// `text/event-stream`. Each one is sent as a single SSE `data:` line.
+export type ScanEvent =
+  | { type: 'redirects'; chain: RedirectChain }
+  | { type: 'plan'; providerIds: string[]; targets: ScanTarget[] }
+  | { type: 'started'; providerId: string; target?: ScanTarget }
+  | { type: 'result'; providerId: string; target?: ScanTarget; checks: SecurityCheck[] }
+  | ({ type: 'finished' } & ProviderSummary)
+  | ({ type: 'complete' } & ScanResult)
+  | { type: 'error'; message: string }
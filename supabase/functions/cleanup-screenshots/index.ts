@@ -0,0 +1,60 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from '../_shared/cors.ts'
+import { SCREENSHOT_BUCKET } from '../_shared/screenshots.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+console.log("Screenshot cleanup function loaded")
+
+// Removes sandbox screenshots no scan row references any more, in batches,
+// until none are left. Meant to run on a schedule, e.g. hourly with pg_cron
+// and pg_net posting to this function with the service role key.
+const BATCH_SIZE = 500
+const MAX_BATCHES = 20
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  })
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  // Deletes files for every user, so only the service role may call it.
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token || token !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return json({ error: 'Forbidden' }, 403)
+  }
+
+  try {
+    const client = createAdminClient()
+    let removed = 0
+
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data: paths, error } = await client.rpc('unreferenced_screenshots', { max_count: BATCH_SIZE })
+      if (error) throw error
+      if (!paths?.length) break
+
+      const { error: removeError } = await client.storage.from(SCREENSHOT_BUCKET).remove(paths)
+      if (removeError) throw removeError
+      removed += paths.length
+      if (paths.length < BATCH_SIZE) break
+    }
+
+    // Owners delete files of their own scans directly; their ownership
+    // records go here along with those of the files removed above.
+    const { data: purged, error: purgeError } = await client.rpc('purge_screenshot_records')
+    if (purgeError) throw purgeError
+
+    console.log('Screenshot cleanup finished:', { removed, purged })
+    return json({ removed, purged })
+  } catch (error) {
+    console.error('Screenshot cleanup error:', error)
+    return json({ error: 'Internal server error' }, 500)
+  }
+})
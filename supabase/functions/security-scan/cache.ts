@@ -0,0 +1,133 @@
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+import type { ProviderOutcome, ScanEvent, ScanTarget, SecurityCheck } from '../_shared/types.ts'
+import type { SecurityProvider } from './providers/index.ts'
+
+// Verdicts from quota-limited providers are shared between scans of the same
+// URL, by any user, until the provider's `cacheTtlMs` runs out. Only the
+// service role reads and writes the cache table.
+
+// Query parameters that identify a click or campaign rather than a page.
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+  'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'li_fat_id', 'srsltid'
+])
+
+const isTrackingParam = (name: string) => {
+  const lower = name.toLowerCase()
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower)
+}
+
+// One key for every spelling of the same page: lowercased scheme and host,
+// no default port, fragment or tracking parameters, and the remaining query
+// sorted. The path keeps its case because servers may treat it as
+// significant.
+export const canonicalizeUrl = (url: string): string => {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return url.trim()
+  }
+
+  parsed.hash = ''
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/\.$/, '')
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([nameA, valueA], [nameB, valueB]) => nameA.localeCompare(nameB) || valueA.localeCompare(valueB))
+  parsed.search = new URLSearchParams(params).toString()
+
+  return parsed.toString()
+}
+
+export const isCacheable = (provider: SecurityProvider) => Boolean(provider.cacheTtlMs)
+
+interface CachedVerdict {
+  checks: SecurityCheck[];
+  durationMs: number;
+  cachedAt: string;
+}
+
+// Unexpired verdicts for `url`, keyed by provider id. A failed lookup just
+// means every provider runs.
+export const readCachedVerdicts = async (
+  url: string,
+  providers: SecurityProvider[]
+): Promise<Map<string, CachedVerdict>> => {
+  const providerIds = providers.filter(isCacheable).map(provider => provider.id)
+  if (providerIds.length === 0) return new Map()
+
+  const { data, error } = await createAdminClient()
+    .from('provider_verdict_cache')
+    .select('provider_id, checks, duration_ms, cached_at')
+    .eq('url_key', canonicalizeUrl(url))
+    .in('provider_id', providerIds)
+    .gt('expires_at', new Date().toISOString())
+
+  if (error) {
+    console.error('Failed to read verdict cache:', error)
+    return new Map()
+  }
+  return new Map((data ?? []).map(row => [row.provider_id, {
+    checks: row.checks as SecurityCheck[],
+    durationMs: row.duration_ms,
+    cachedAt: row.cached_at
+  }]))
+}
+
+// Reports a cached verdict through the same events as a provider run, with
+// every check marked as cached.
+export const replayCachedVerdict = (
+  providerId: string,
+  verdict: CachedVerdict,
+  onEvent: (event: ScanEvent) => void,
+  target?: ScanTarget
+): ProviderOutcome => {
+  const checks = verdict.checks.map(check => ({ ...check, providerId, target, cachedAt: verdict.cachedAt }))
+  onEvent({ type: 'result', providerId, target, checks })
+  onEvent({ type: 'finished', providerId, target, status: 'completed', durationMs: verdict.durationMs, cachedAt: verdict.cachedAt })
+  return { providerId, target, status: 'completed', durationMs: verdict.durationMs, checks, cachedAt: verdict.cachedAt }
+}
+
+// Stores the verdicts of providers that just completed for `url`. Errors,
+// timeouts and analyses the provider had not finished are never cached, so
+// the next scan asks again. Cached providers must throw on a failed request
+// rather than report it as a check, or one user's bad key would hand every
+// other user a false verdict.
+export const writeCachedVerdicts = async (url: string, outcomes: ProviderOutcome[], providers: SecurityProvider[]) => {
+  const now = Date.now()
+  const rows = outcomes.flatMap((outcome) => {
+    const ttlMs = providers.find(provider => provider.id === outcome.providerId)?.cacheTtlMs
+    if (!ttlMs || outcome.cachedAt || outcome.status !== 'completed') return []
+    if (outcome.checks.some(check => check.status === 'timeout' || check.status === 'error')) return []
+
+    return [{
+      url_key: canonicalizeUrl(url),
+      provider_id: outcome.providerId,
+      // The same URL may be the QR code's own link in one scan and a
+      // redirect's destination in the next, so the target is not stored.
+      checks: outcome.checks.map(({ target: _target, ...check }) => check),
+      duration_ms: outcome.durationMs,
+      cached_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlMs).toISOString()
+    }]
+  })
+  if (rows.length === 0) return
+
+  const client = createAdminClient()
+  const { error } = await client.from('provider_verdict_cache').upsert(rows, { onConflict: 'url_key,provider_id' })
+  if (error) {
+    console.error('Failed to write verdict cache:', error)
+    return
+  }
+
+  // Expired rows are only ever overwritten by a new scan of the same URL;
+  // sweep the rest while we are here.
+  const { error: purgeError } = await client
+    .from('provider_verdict_cache')
+    .delete()
+    .lt('expires_at', new Date(now).toISOString())
+  if (purgeError) {
+    console.error('Failed to purge expired verdicts:', purgeError)
+  }
+}
@@ -1,284 +1,170 @@
-
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getCallerId, loadScanApiKeys } from '../_shared/apiKeys.ts'
 import { corsHeaders } from '../_shared/cors.ts'
+import { assessRisk } from '../_shared/scoring.ts'
+import type { ProviderOutcome, RedirectChain, ScanEvent, ScanResult, ScanTarget } from '../_shared/types.ts'
+import { readCachedVerdicts, replayCachedVerdict, writeCachedVerdicts } from './cache.ts'
+import { getActiveProviders, type SecurityProvider } from './providers/index.ts'
+import { REDIRECT_TIMEOUT_MS, resolveRedirectChain } from './redirects.ts'
+import { runProviders, SCAN_BUDGET_MS, type ScanContext } from './runner.ts'
 
 console.log("Security scan function loaded")
 
-interface SecurityCheck {
-  name: string;
-  status: 'pending' | 'passed' | 'failed' | 'warning';
-  description: string;
-  details?: string;
-  engines?: any;
-  screenshot?: string;
+const buildScanResult = (outcomes: ProviderOutcome[], redirectChain: RedirectChain): ScanResult => {
+  const results = outcomes.flatMap(outcome => outcome.checks)
+
+  const risk = assessRisk(results)
+  const { overallRisk } = risk
+
+  console.log('Security scan completed:', {
+    resultsCount: results.length,
+    overallRisk,
+    score: risk.score,
+    hasScreenshot: results.some(r => r.screenshot),
+    redirectHops: redirectChain.hops.length,
+    timedOut: outcomes.filter(outcome => outcome.status === 'timeout').map(outcome => outcome.providerId)
+  })
+
+  return {
+    results,
+    overallRisk,
+    risk,
+    providers: outcomes.map(({ providerId, target, status, durationMs, cachedAt }) => ({ providerId, target, status, durationMs, cachedAt })),
+    redirectChain
+  }
 }
 
-serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders })
-  }
+interface ScanRunOptions {
+  // Ignore cached verdicts and ask every provider again.
+  forceRefresh?: boolean;
+  onEvent?: (event: ScanEvent) => void;
+  // Stops the scan early; providers still running report a timeout.
+  signal?: AbortSignal;
+}
 
-  try {
-    const { url, apiKeys } = await req.json()
-    console.log('Security scan request for URL:', url)
-    console.log('Available API keys:', Object.keys(apiKeys))
+// Checks one URL of the redirect chain, reusing cached verdicts where they
+// are still fresh. Outcomes keep registry order either way.
+const scanTarget = async (
+  providers: SecurityProvider[],
+  url: string,
+  target: ScanTarget,
+  context: ScanContext,
+  { forceRefresh, onEvent = () => {}, budgetMs, signal }: ScanRunOptions & { budgetMs: number }
+): Promise<ProviderOutcome[]> => {
+  const cached = forceRefresh ? new Map() : await readCachedVerdicts(url, providers)
+  const fresh = await runProviders(providers.filter(provider => !cached.has(provider.id)), url, context, { budgetMs, onEvent, target, signal })
+  await writeCachedVerdicts(url, fresh, providers)
+
+  return providers.map(provider => {
+    const verdict = cached.get(provider.id)
+    return verdict
+      ? replayCachedVerdict(provider.id, verdict, onEvent, target)
+      : fresh.find(outcome => outcome.providerId === provider.id)
+  }).filter((outcome): outcome is ProviderOutcome => Boolean(outcome))
+}
 
-    const results: SecurityCheck[] = []
+const scan = async (url: string, context: ScanContext, { forceRefresh, onEvent, signal }: ScanRunOptions = {}): Promise<ScanResult> => {
+  const startedAt = Date.now()
+  const redirectTimeout = AbortSignal.timeout(REDIRECT_TIMEOUT_MS)
+  const redirectChain = await resolveRedirectChain(url, {
+    signal: signal ? AbortSignal.any([redirectTimeout, signal]) : redirectTimeout
+  })
+  onEvent?.({ type: 'redirects', chain: redirectChain })
+
+  // When the QR code redirects, every provider also checks where it leads.
+  const targets: [ScanTarget, string][] = [['original', url]]
+  const { hops, finalUrl } = redirectChain
+  if (hops.length > 1 && finalUrl !== hops[0].url && /^https?:/i.test(finalUrl)) {
+    targets.push(['final', finalUrl])
+  }
 
-    // VirusTotal Check
-    if (apiKeys.VIRUSTOTAL_API_KEY) {
-      console.log('Checking with VirusTotal...')
-      try {
-        const vtResponse = await fetch(`https://www.virustotal.com/vtapi/v2/url/report?apikey=${apiKeys.VIRUSTOTAL_API_KEY}&resource=${encodeURIComponent(url)}`)
-        const vtData = await vtResponse.json()
-        console.log('VirusTotal response:', vtData)
+  const providers = getActiveProviders(context.apiKeys)
+  onEvent?.({
+    type: 'plan',
+    providerIds: providers.map(provider => provider.id),
+    targets: targets.map(([target]) => target)
+  })
+
+  const budgetMs = SCAN_BUDGET_MS - (Date.now() - startedAt)
+  const outcomes = await Promise.all(
+    targets.map(([target, targetUrl]) => scanTarget(providers, targetUrl, target, context, { forceRefresh, onEvent, budgetMs, signal }))
+  )
+  return buildScanResult(outcomes.flat(), redirectChain)
+}
 
-        if (vtData.response_code === 1) {
-          const status = vtData.positives > 0 ? 'failed' : 'passed'
-          results.push({
-            name: 'VirusTotal Scan',
-            status,
-            description: `Scanned by ${vtData.total} engines`,
-            details: vtData.positives > 0 ? `${vtData.positives} engines detected threats` : 'No threats detected',
-            engines: vtData
-          })
-        } else {
-          results.push({
-            name: 'VirusTotal Scan',
-            status: 'warning',
-            description: 'URL not found in VirusTotal database',
-            details: 'This URL has not been previously scanned'
-          })
+// Streams scan progress as server-sent events, one JSON ScanEvent per
+// message, finishing with a `complete` event that carries the full result.
+// A client that disconnects cancels the scan rather than leaving providers
+// running for nobody.
+const streamScan = (url: string, context: ScanContext, forceRefresh: boolean): Response => {
+  const encoder = new TextEncoder()
+  const disconnected = new AbortController()
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // Called from inside the providers' progress, so it must never throw:
+      // once the stream is gone, events are dropped.
+      const send = (event: ScanEvent) => {
+        if (disconnected.signal.aborted) return
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+        } catch (error) {
+          console.warn('Security scan stream closed:', error)
+          disconnected.abort()
         }
-      } catch (error) {
-        console.error('VirusTotal error:', error)
-        results.push({
-          name: 'VirusTotal Scan',
-          status: 'warning',
-          description: 'Failed to check with VirusTotal',
-          details: 'Service temporarily unavailable'
-        })
       }
-    }
 
-    // Google Safe Browsing Check
-    if (apiKeys.GOOGLE_SAFE_BROWSING_API_KEY) {
-      console.log('Checking with Google Safe Browsing...')
       try {
-        const gsbResponse = await fetch(`https://safebrowsing.googleapis.com/v4/threatMatches:find?key=${apiKeys.GOOGLE_SAFE_BROWSING_API_KEY}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            client: {
-              clientId: "qr-shield",
-              clientVersion: "1.0.0"
-            },
-            threatInfo: {
-              threatTypes: ["MALWARE", "SOCIAL_ENGINEERING", "UNWANTED_SOFTWARE", "POTENTIALLY_HARMFUL_APPLICATION"],
-              platformTypes: ["ANY_PLATFORM"],
-              threatEntryTypes: ["URL"],
-              threatEntries: [{ url }]
-            }
-          })
-        })
-        const gsbData = await gsbResponse.json()
-        console.log('Google Safe Browsing response:', gsbData)
-
-        const status = gsbData.matches && gsbData.matches.length > 0 ? 'failed' : 'passed'
-        results.push({
-          name: 'Google Safe Browsing',
-          status,
-          description: 'Google\'s threat detection service',
-          details: status === 'failed' ? `Detected: ${gsbData.matches[0]?.threatType}` : 'No threats detected'
-        })
+        const result = await scan(url, context, { forceRefresh, onEvent: send, signal: disconnected.signal })
+        send({ type: 'complete', ...result })
       } catch (error) {
-        console.error('Google Safe Browsing error:', error)
-        results.push({
-          name: 'Google Safe Browsing',
-          status: 'warning',
-          description: 'Failed to check with Google Safe Browsing',
-          details: 'Service temporarily unavailable'
-        })
+        console.error('Security scan stream error:', error)
+        send({ type: 'error', message: 'Internal server error' })
+      } finally {
+        if (!disconnected.signal.aborted) controller.close()
       }
+    },
+    cancel() {
+      console.log('Security scan client disconnected, stopping providers')
+      disconnected.abort()
     }
+  })
 
-    // URLScan.io Check
-    if (apiKeys.URLSCAN_API_KEY) {
-      console.log('Checking with URLScan.io...')
-      try {
-        const scanResponse = await fetch('https://urlscan.io/api/v1/scan/', {
-          method: 'POST',
-          headers: {
-            'API-Key': apiKeys.URLSCAN_API_KEY,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            url: url,
-            visibility: 'private'
-          })
-        })
-        const scanData = await scanResponse.json()
-        console.log('URLScan.io scan initiated:', scanData)
-
-        results.push({
-          name: 'URLScan.io Analysis',
-          status: 'passed',
-          description: 'Deep URL and website analysis',
-          details: `Scan initiated - UUID: ${scanData.uuid?.substring(0, 8)}...`
-        })
-      } catch (error) {
-        console.error('URLScan.io error:', error)
-        results.push({
-          name: 'URLScan.io Analysis',
-          status: 'warning',
-          description: 'Failed to initiate URLScan.io analysis',
-          details: 'Service temporarily unavailable'
-        })
-      }
-    }
-
-    // Browserless Sandbox Screenshot - FIXED IMPLEMENTATION
-    if (apiKeys.BROWSERLESS_API_KEY) {
-      console.log('Capturing sandbox screenshot with Browserless...')
-      try {
-        const screenshotResponse = await fetch(`https://chrome.browserless.io/screenshot?token=${apiKeys.BROWSERLESS_API_KEY}`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            url: url,
-            options: {
-              fullPage: false,
-              type: 'png',
-              quality: 80,
-              clip: {
-                x: 0,
-                y: 0,
-                width: 1280,
-                height: 720
-              }
-            },
-            viewport: {
-              width: 1280,
-              height: 720,
-              deviceScaleFactor: 1
-            },
-            gotoOptions: {
-              timeout: 15000,
-              waitUntil: 'networkidle2'
-            }
-          })
-        })
-
-        console.log('Browserless response status:', screenshotResponse.status)
-        
-        if (screenshotResponse.ok) {
-          const screenshotBuffer = await screenshotResponse.arrayBuffer()
-          const base64Screenshot = btoa(String.fromCharCode(...new Uint8Array(screenshotBuffer)))
-          const screenshotDataUrl = `data:image/png;base64,${base64Screenshot}`
-          
-          console.log('Screenshot captured successfully, size:', screenshotBuffer.byteLength, 'bytes')
-
-          results.push({
-            name: 'Sandbox Screenshot',
-            status: 'passed',
-            description: 'Controlled environment website capture',
-            details: 'Screenshot captured in secure sandbox environment',
-            screenshot: screenshotDataUrl
-          })
-        } else {
-          const errorText = await screenshotResponse.text()
-          console.error('Browserless screenshot failed:', screenshotResponse.status, errorText)
-          
-          results.push({
-            name: 'Sandbox Screenshot',
-            status: 'warning',
-            description: 'Failed to capture sandbox screenshot',
-            details: `Browserless service error: ${screenshotResponse.status}`
-          })
-        }
-      } catch (error) {
-        console.error('Browserless screenshot error:', error)
-        results.push({
-          name: 'Sandbox Screenshot',
-          status: 'warning',
-          description: 'Failed to capture sandbox screenshot',
-          details: 'Browserless service temporarily unavailable'
-        })
-      }
+  return new Response(body, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache'
     }
+  })
+}
 
-    // IP Info Check
-    if (apiKeys.IPINFO_API_KEY) {
-      try {
-        const domain = new URL(url).hostname
-        const ipResponse = await fetch(`https://ipinfo.io/${domain}?token=${apiKeys.IPINFO_API_KEY}`)
-        const ipData = await ipResponse.json()
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
 
-        results.push({
-          name: 'IP Geolocation Check',
-          status: 'passed',
-          description: 'IP address and location analysis',
-          details: `Location: ${ipData.city || 'Unknown'}, ${ipData.country || 'Unknown'} | ISP: ${ipData.org || 'Unknown'}`
-        })
-      } catch (error) {
-        console.error('IPInfo error:', error)
-        results.push({
-          name: 'IP Geolocation Check',
-          status: 'warning',
-          description: 'Failed to get IP information',
-          details: 'Service temporarily unavailable'
-        })
-      }
-    }
+  try {
+    // Keys are looked up for the signed-in caller and their organization;
+    // the body carries none.
+    const { url, options = {}, forceRefresh = false } = await req.json()
+    const userId = await getCallerId(req)
+    const apiKeys = await loadScanApiKeys(userId)
+    console.log('Security scan request for URL:', url)
+    console.log('Available API keys:', Object.keys(apiKeys))
 
-    // Basic URL validation
-    try {
-      const urlObj = new URL(url)
-      const isHttps = urlObj.protocol === 'https:'
-      
-      results.push({
-        name: 'SSL/TLS Security',
-        status: isHttps ? 'passed' : 'warning',
-        description: 'Secure connection validation',
-        details: isHttps ? 'Site uses HTTPS encryption' : 'Site does not use HTTPS - data may be insecure'
-      })
-    } catch {
-      results.push({
-        name: 'URL Validation',
-        status: 'failed',
-        description: 'Invalid URL format',
-        details: 'The provided URL is not valid'
-      })
-    }
+    const context: ScanContext = { apiKeys, userId, options }
 
-    // Determine overall risk
-    const failedChecks = results.filter(r => r.status === 'failed').length
-    const warningChecks = results.filter(r => r.status === 'warning').length
-    
-    let overallRisk = 'LOW'
-    if (failedChecks > 0) {
-      overallRisk = 'HIGH'
-    } else if (warningChecks > 1) {
-      overallRisk = 'MEDIUM'
+    if (req.headers.get('Accept')?.includes('text/event-stream')) {
+      return streamScan(url, context, forceRefresh)
     }
 
-    console.log('Security scan completed:', {
-      resultsCount: results.length,
-      overallRisk,
-      hasScreenshot: results.some(r => r.screenshot)
-    })
-
     return new Response(
-      JSON.stringify({ results, overallRisk }),
-      { 
-        headers: { 
+      JSON.stringify(await scan(url, context, { forceRefresh })),
+      {
+        headers: {
           ...corsHeaders,
-          'Content-Type': 'application/json' 
-        } 
+          'Content-Type': 'application/json'
+        }
       }
     )
 
@@ -286,12 +172,12 @@ serve(async (req) => {
     console.error('Security scan error:', error)
     return new Response(
       JSON.stringify({ error: 'Internal server error' }),
-      { 
+      {
         status: 500,
-        headers: { 
+        headers: {
           ...corsHeaders,
-          'Content-Type': 'application/json' 
-        } 
+          'Content-Type': 'application/json'
+        }
       }
     )
   }
@@ -0,0 +1,7 @@
+import { analyzeBrandImpersonation } from '../../_shared/brands.ts'
+import { defineProvider } from './types.ts'
+
+// Keyless check that runs on every scan.
+export const brandProtectionProvider = defineProvider('brand-protection', async (url, { options }) =>
+  [analyzeBrandImpersonation(url, options.protectedBrands)]
+)
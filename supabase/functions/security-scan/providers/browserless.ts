@@ -0,0 +1,234 @@
+import { detectCloaking } from '../../_shared/cloaking.ts'
+import { analyzePageContent } from '../../_shared/pageContent.ts'
+import type { CaptureDevice, PageCapture, PageContent } from '../../_shared/types.ts'
+import { storeScreenshot } from '../screenshots.ts'
+import { defineProvider, type ProviderContext } from './types.ts'
+
+interface DeviceProfile {
+  userAgent: string;
+  viewport: {
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    isMobile: boolean;
+    hasTouch: boolean;
+  };
+}
+
+// Every profile sends a real browser's user agent. Kits cloak on headless
+// user agents as readily as on desktop ones, so the desktop capture is no
+// more honest without one.
+const DEVICE_PROFILES: Record<CaptureDevice, DeviceProfile> = {
+  desktop: {
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36',
+    viewport: { width: 1280, height: 720, deviceScaleFactor: 1, isMobile: false, hasTouch: false }
+  },
+  iphone: {
+    userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_6 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.6 Mobile/15E148 Safari/604.1',
+    viewport: { width: 390, height: 844, deviceScaleFactor: 1, isMobile: true, hasTouch: true }
+  },
+  android: {
+    userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36',
+    viewport: { width: 412, height: 915, deviceScaleFactor: 1, isMobile: true, hasTouch: true }
+  }
+}
+
+// Each capture still has to screenshot, hash and upload after the page
+// loads, and the three run side by side within the provider's 40s deadline,
+// so page loads get well under half of it.
+const NAVIGATION_TIMEOUT_MS = 12000
+
+// Keeps the DOM extract small enough to send back with the screenshot.
+const CONTENT_LIMITS = {
+  forms: 20,
+  inputs: 30,
+  frames: 30,
+  scripts: 30,
+  scriptLength: 20000
+}
+
+// Runs inside Browserless. Besides the screenshot it reports where the page
+// ended up, its title and element count, an 8x8 average hash of the
+// screenshot (64 bits as hex) so captures can be compared without the images,
+// and the parts of the rendered DOM the content analysis looks at.
+const CAPTURE_FUNCTION = `
+module.exports = async ({ page, context }) => {
+  const downloads = []
+  page.on('response', (response) => {
+    const disposition = response.headers()['content-disposition'] || ''
+    if (/^\\s*attachment/i.test(disposition)) downloads.push(response.url())
+  })
+
+  await page.setUserAgent(context.userAgent)
+  await page.setViewport(context.viewport)
+  try {
+    await page.goto(context.url, { waitUntil: 'networkidle2', timeout: context.timeout })
+  } catch (error) {
+    // Navigating straight to a download aborts the page load.
+    if (downloads.length === 0) throw error
+  }
+
+  const finalUrl = page.url()
+  const title = await page.title()
+  const domSize = await page.evaluate(() => document.getElementsByTagName('*').length)
+  const content = await page.evaluate((limits) => {
+    const isHidden = (element) => {
+      const style = getComputedStyle(element)
+      const rect = element.getBoundingClientRect()
+      return style.display === 'none' || style.visibility === 'hidden' || Number(style.opacity) === 0 ||
+        rect.width <= 2 || rect.height <= 2
+    }
+    const describeInputs = (inputs) => inputs.slice(0, limits.inputs).map(input => ({
+      type: (input.type || 'text').toLowerCase(),
+      name: input.name || input.id || ''
+    }))
+
+    const forms = [...document.forms].slice(0, limits.forms).map(form => ({
+      action: form.action,
+      method: (form.method || 'get').toLowerCase(),
+      inputs: describeInputs([...form.querySelectorAll('input')])
+    }))
+    const looseInputs = [...document.querySelectorAll('input')].filter(input => !input.form)
+    if (looseInputs.some(input => input.type === 'password')) {
+      forms.push({ action: '', method: 'post', inputs: describeInputs(looseInputs) })
+    }
+
+    return {
+      forms,
+      iframes: [...document.querySelectorAll('iframe')].slice(0, limits.frames).map(frame => ({
+        src: frame.src,
+        hidden: isHidden(frame)
+      })),
+      inlineScripts: [...document.scripts].filter(script => !script.src).slice(0, limits.scripts)
+        .map(script => (script.textContent || '').slice(0, limits.scriptLength))
+    }
+  }, context.limits)
+  const screenshot = await page.screenshot({ type: 'png', encoding: 'base64' })
+
+  await page.goto('about:blank')
+  const imageHash = await page.evaluate(async (source) => {
+    const image = new Image()
+    image.src = 'data:image/png;base64,' + source
+    await image.decode()
+    const canvas = document.createElement('canvas')
+    canvas.width = 8
+    canvas.height = 8
+    const context2d = canvas.getContext('2d')
+    context2d.drawImage(image, 0, 0, 8, 8)
+    const pixels = context2d.getImageData(0, 0, 8, 8).data
+    const gray = []
+    for (let i = 0; i < pixels.length; i += 4) {
+      gray.push(pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114)
+    }
+    const average = gray.reduce((sum, value) => sum + value, 0) / gray.length
+    let hash = ''
+    for (let i = 0; i < gray.length; i += 4) {
+      let nibble = 0
+      for (let j = 0; j < 4; j++) nibble = (nibble << 1) | (gray[i + j] >= average ? 1 : 0)
+      hash += nibble.toString(16)
+    }
+    return hash
+  }, screenshot)
+
+  return {
+    data: { finalUrl, title, domSize, imageHash, screenshot, content: { url: finalUrl, ...content, downloads } },
+    type: 'application/json'
+  }
+}
+`
+
+interface CaptureResult {
+  finalUrl: string;
+  title: string;
+  domSize: number;
+  imageHash: string;
+  screenshot: string;
+  content: PageContent;
+}
+
+interface DeviceVisit {
+  capture: PageCapture;
+  // Only available when the page loaded.
+  content?: PageContent;
+}
+
+const decodeBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0)).buffer
+
+const capturePage = async (url: string, device: CaptureDevice, context: ProviderContext): Promise<DeviceVisit> => {
+  const { apiKeys, userId, signal } = context
+  const response = await fetch(`https://chrome.browserless.io/function?token=${apiKeys.BROWSERLESS_API_KEY}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      code: CAPTURE_FUNCTION,
+      context: { url, ...DEVICE_PROFILES[device], timeout: NAVIGATION_TIMEOUT_MS, limits: CONTENT_LIMITS }
+    })
+  })
+
+  console.log(`Browserless ${device} response status:`, response.status)
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    console.error(`Browserless ${device} capture failed:`, response.status, errorText)
+    return { capture: { device, error: `Browserless service error: ${response.status}` } }
+  }
+
+  const { screenshot, content, ...result } = await response.json() as CaptureResult
+  const capture: PageCapture = { device, ...result }
+
+  // Stored as a file rather than inline, so scan rows stay small. The page
+  // details are still worth comparing without the image.
+  try {
+    const { path, signedUrl } = await storeScreenshot(decodeBase64(screenshot), userId)
+    return { capture: { ...capture, screenshot: signedUrl, screenshotPath: path }, content }
+  } catch (error) {
+    if (signal.aborted) throw error
+    console.error(`Storing ${device} screenshot failed:`, error)
+    return { capture, content }
+  }
+}
+
+// One device failing still leaves the others to compare.
+const tryCapturePage = async (url: string, device: CaptureDevice, context: ProviderContext): Promise<DeviceVisit> => {
+  try {
+    return await capturePage(url, device, context)
+  } catch (error) {
+    if (context.signal.aborted) throw error
+    console.error(`Browserless ${device} capture error:`, error)
+    return { capture: { device, error: error instanceof Error ? error.message : 'Capture failed' } }
+  }
+}
+
+export const browserlessProvider = defineProvider('browserless', async (url, context) => {
+  console.log('Capturing sandbox screenshots with Browserless...')
+  const devices = Object.keys(DEVICE_PROFILES) as CaptureDevice[]
+  const visits = await Promise.all(devices.map(device => tryCapturePage(url, device, context)))
+  const captures = visits.map(visit => visit.capture)
+  const desktop = captures.find(capture => capture.device === 'desktop')
+  const contentCheck = analyzePageContent(visits
+    .filter(visit => visit.content)
+    .map(visit => ({ device: visit.capture.device, content: visit.content })))
+
+  if (captures.every(capture => !capture.screenshot)) {
+    return [{
+      name: 'Sandbox Screenshot',
+      status: 'error',
+      description: 'Failed to capture sandbox screenshot',
+      details: desktop?.error ?? 'The pages were captured but the screenshots could not be saved',
+      captures
+    }, detectCloaking(captures), contentCheck]
+  }
+
+  return [{
+    name: 'Sandbox Screenshot',
+    status: 'passed',
+    description: 'Controlled environment website capture',
+    details: 'Screenshots captured in secure sandbox environment as desktop, iPhone and Android browsers',
+    screenshot: desktop?.screenshot,
+    screenshotPath: desktop?.screenshotPath,
+    captures
+  }, detectCloaking(captures), contentCheck]
+})
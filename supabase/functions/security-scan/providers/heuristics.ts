@@ -0,0 +1,5 @@
+import { analyzeUrlHeuristics } from '../../_shared/heuristics.ts'
+import { defineProvider } from './types.ts'
+
+// Keyless check that runs on every scan.
+export const heuristicsProvider = defineProvider('heuristics', async (url) => [analyzeUrlHeuristics(url)])
@@ -0,0 +1,32 @@
+import { hasRequiredKeys } from '../../_shared/providers.ts'
+import type { ApiKeys } from '../../_shared/types.ts'
+import { brandProtectionProvider } from './brandProtection.ts'
+import { browserlessProvider } from './browserless.ts'
+import { heuristicsProvider } from './heuristics.ts'
+import { ipInfoProvider } from './ipinfo.ts'
+import { rdapProvider } from './rdap.ts'
+import { safeBrowsingProvider } from './safeBrowsing.ts'
+import { transportProvider } from './transport.ts'
+import type { SecurityProvider } from './types.ts'
+import { urlScanProvider } from './urlscan.ts'
+import { virusTotalProvider } from './virustotal.ts'
+
+export type { ProviderContext, SecurityProvider } from './types.ts'
+
+// Registry of every provider the scan handler can run. To add a new
+// threat-intel source, describe it in _shared/providers.ts, implement it in
+// its own module here and append it to this list.
+export const providerRegistry: SecurityProvider[] = [
+  virusTotalProvider,
+  safeBrowsingProvider,
+  urlScanProvider,
+  browserlessProvider,
+  ipInfoProvider,
+  rdapProvider,
+  heuristicsProvider,
+  brandProtectionProvider,
+  transportProvider
+]
+
+export const getActiveProviders = (apiKeys: ApiKeys): SecurityProvider[] =>
+  providerRegistry.filter(provider => hasRequiredKeys(provider, apiKeys))
@@ -0,0 +1,17 @@
+import { defineProvider } from './types.ts'
+
+export const ipInfoProvider = defineProvider('ipinfo', async (url, { apiKeys, signal }) => {
+  const domain = new URL(url).hostname
+  const ipResponse = await fetch(`https://ipinfo.io/${domain}?token=${apiKeys.IPINFO_API_KEY}`, { signal })
+  const ipData = await ipResponse.json().catch(() => ({}))
+  if (!ipResponse.ok) {
+    throw new Error(ipData.error?.message || `IPInfo request failed (${ipResponse.status})`)
+  }
+
+  return [{
+    name: 'IP Geolocation Check',
+    status: 'passed',
+    description: 'IP address and location analysis',
+    details: `Location: ${ipData.city || 'Unknown'}, ${ipData.country || 'Unknown'} | ISP: ${ipData.org || 'Unknown'}`
+  }]
+})
@@ -0,0 +1,43 @@
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+export interface PollOptions {
+  initialDelayMs: number;
+  intervalMs: number;
+  maxAttempts: number;
+  signal?: AbortSignal;
+}
+
+// Calls `attempt` until it returns a value other than null, waiting between
+// tries. Resolves with null once `maxAttempts` is exhausted so callers can
+// report a bounded "still pending" result instead of waiting forever.
+export const pollUntil = async <T>(
+  attempt: () => Promise<T | null>,
+  { initialDelayMs, intervalMs, maxAttempts, signal }: PollOptions
+): Promise<T | null> => {
+  await sleep(initialDelayMs, signal)
+  for (let i = 0; i < maxAttempts; i++) {
+    const value = await attempt()
+    if (value !== null) {
+      return value
+    }
+    if (i < maxAttempts - 1) {
+      await sleep(intervalMs, signal)
+    }
+  }
+  return null
+}
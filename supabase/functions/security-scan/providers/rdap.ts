@@ -0,0 +1,98 @@
+import { getPlatformSuffix, getRegistrableDomain, getTld, isCountryCodeTld, isIpAddress } from '../../_shared/domain.ts'
+import { analyzeDomainAge, parseRdapDomain, resolveDomainAgeThreshold } from '../../_shared/domainAge.ts'
+import { defineProvider } from './types.ts'
+
+// IANA's list of which RDAP server answers for each TLD. It changes rarely,
+// so one copy is kept for as long as the function instance lives.
+const RDAP_BOOTSTRAP_URL = 'https://data.iana.org/rdap/dns.json'
+
+let bootstrap: Promise<Map<string, string>> | null = null
+
+const loadBootstrap = (signal: AbortSignal): Promise<Map<string, string>> => {
+  bootstrap ??= fetch(RDAP_BOOTSTRAP_URL, { signal })
+    .then((response) => {
+      if (!response.ok) throw new Error(`RDAP bootstrap error: ${response.status}`)
+      return response.json()
+    })
+    .then((data: { services: [string[], string[]][] }) => {
+      const servers = new Map<string, string>()
+      for (const [tlds, urls] of data.services) {
+        const url = urls.find(candidate => candidate.startsWith('https:')) ?? urls[0]
+        for (const tld of tlds) servers.set(tld.toLowerCase(), url.endsWith('/') ? url : `${url}/`)
+      }
+      return servers
+    })
+    .catch((error) => {
+      // Try again on the next scan rather than caching the failure.
+      bootstrap = null
+      throw error
+    })
+  return bootstrap
+}
+
+export const rdapProvider = defineProvider('rdap', async (url, { options, signal }) => {
+  const hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '')
+  if (isIpAddress(hostname.replace(/^\[|\]$/g, ''))) {
+    return [{
+      name: 'Domain Age',
+      status: 'passed',
+      description: 'Domain registration data from RDAP',
+      details: 'IP addresses have no domain registration'
+    }]
+  }
+
+  const platform = getPlatformSuffix(hostname)
+  if (platform) {
+    return [{
+      name: 'Domain Age',
+      status: 'skipped',
+      description: 'Domain age unavailable',
+      details: `${hostname} is a site on ${platform}, which registries hold no record for`
+    }]
+  }
+
+  const domain = getRegistrableDomain(hostname)
+  const server = (await loadBootstrap(signal)).get(getTld(domain))
+  if (!server) {
+    return [{
+      name: 'Domain Age',
+      status: 'skipped',
+      description: 'Domain age unavailable',
+      details: `The .${getTld(domain)} registry does not offer RDAP`
+    }]
+  }
+
+  const rdapResponse = await fetch(`${server}domain/${encodeURIComponent(domain)}`, {
+    signal,
+    headers: {
+      'Accept': 'application/rdap+json',
+    }
+  })
+
+  // Country registries may sell names under second levels the suffix list
+  // does not know, so a miss there more likely means the wrong name was
+  // looked up than an unregistered domain.
+  if (rdapResponse.status === 404 && isCountryCodeTld(getTld(domain))) {
+    return [{
+      name: 'Domain Age',
+      status: 'skipped',
+      description: 'Domain age unavailable',
+      details: `The .${getTld(domain)} registry has no record for ${domain}`
+    }]
+  }
+  if (rdapResponse.status === 404) {
+    return [{
+      name: 'Domain Age',
+      status: 'warning',
+      description: 'Domain not found in the registry',
+      details: `${domain} has no registration record; it may have been deleted or never registered`,
+      confidence: 0.5
+    }]
+  }
+  if (!rdapResponse.ok) {
+    throw new Error(`RDAP lookup failed: ${rdapResponse.status}`)
+  }
+
+  const registration = parseRdapDomain(domain, await rdapResponse.json())
+  return [analyzeDomainAge(registration, resolveDomainAgeThreshold(options.domainAgeThresholdDays))]
+})
@@ -0,0 +1,40 @@
+import { defineProvider } from './types.ts'
+
+export const safeBrowsingProvider = defineProvider('safe-browsing', async (url, { apiKeys, signal }) => {
+  const gsbResponse = await fetch(`https://safebrowsing.googleapis.com/v4/threatMatches:find?key=${apiKeys.GOOGLE_SAFE_BROWSING_API_KEY}`, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      client: {
+        clientId: "qr-shield",
+        clientVersion: "1.0.0"
+      },
+      threatInfo: {
+        threatTypes: ["MALWARE", "SOCIAL_ENGINEERING", "UNWANTED_SOFTWARE", "POTENTIALLY_HARMFUL_APPLICATION"],
+        platformTypes: ["ANY_PLATFORM"],
+        threatEntryTypes: ["URL"],
+        threatEntries: [{ url }]
+      }
+    })
+  })
+  const gsbData = await gsbResponse.json().catch(() => ({}))
+  console.log('Google Safe Browsing response:', gsbData)
+
+  // An error body has no matches either; it must not read as a clean verdict,
+  // which would also be cached for every user.
+  if (!gsbResponse.ok) {
+    throw new Error(gsbData.error?.message || `Google Safe Browsing request failed (${gsbResponse.status})`)
+  }
+
+  const status = gsbData.matches && gsbData.matches.length > 0 ? 'failed' : 'passed'
+  return [{
+    name: 'Google Safe Browsing',
+    status,
+    description: 'Google\'s threat detection service',
+    details: status === 'failed' ? `Detected: ${gsbData.matches[0]?.threatType}` : 'No threats detected',
+    threatType: status === 'failed' ? gsbData.matches[0]?.threatType : undefined
+  }]
+})
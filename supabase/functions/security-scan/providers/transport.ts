@@ -0,0 +1,61 @@
+import { analyzeCertificate } from '../../_shared/certificates.ts'
+import { isPrivateHost, resolvesToPrivateAddress } from '../redirects.ts'
+import { inspectCertificate } from '../tls.ts'
+import { defineProvider } from './types.ts'
+
+// Keyless check that runs on every scan. HTTPS URLs get a real handshake so
+// the certificate itself can be judged.
+export const transportProvider = defineProvider('transport', async (url, { options, signal }) => {
+  let urlObj: URL
+  try {
+    urlObj = new URL(url)
+  } catch {
+    return [{
+      name: 'URL Validation',
+      status: 'failed',
+      description: 'Invalid URL format',
+      details: 'The provided URL is not valid'
+    }]
+  }
+
+  if (urlObj.protocol !== 'https:') {
+    return [{
+      name: 'SSL/TLS Security',
+      status: 'warning',
+      description: 'Secure connection validation',
+      details: 'Site does not use HTTPS - data may be insecure'
+    }]
+  }
+
+  const hostname = urlObj.hostname.replace(/^\[|\]$/g, '')
+  if (isPrivateHost(hostname) || await resolvesToPrivateAddress(hostname, signal)) {
+    return [{
+      name: 'SSL/TLS Security',
+      status: 'warning',
+      description: 'Secure connection validation',
+      details: 'Certificate not inspected: the site is on a private network address'
+    }]
+  }
+
+  try {
+    const certificate = await inspectCertificate(hostname, Number(urlObj.port) || 443, signal)
+    if (!certificate) {
+      return [{
+        name: 'SSL/TLS Security',
+        status: 'passed',
+        description: 'Secure connection validation',
+        details: 'Site uses HTTPS encryption; certificate details are not available'
+      }]
+    }
+    return [analyzeCertificate(hostname, certificate, options.protectedBrands)]
+  } catch (error) {
+    if (signal.aborted) throw error
+    console.error('TLS handshake failed:', error)
+    return [{
+      name: 'SSL/TLS Security',
+      status: 'warning',
+      description: 'Secure connection validation',
+      details: `Could not complete a TLS handshake: ${error instanceof Error ? error.message : 'connection failed'}`
+    }]
+  }
+})
@@ -0,0 +1,26 @@
+import { getProviderDefinition } from '../../_shared/providers.ts'
+import type { ApiKeys, ProviderDefinition, ScanOptions, SecurityCheck } from '../../_shared/types.ts'
+
+export interface ProviderContext {
+  apiKeys: ApiKeys;
+  // Signed-in caller, or null for anonymous scans.
+  userId: string | null;
+  options: ScanOptions;
+  // Aborted once the provider's deadline or the scan budget has passed.
+  // Pass it to every outbound request.
+  signal: AbortSignal;
+}
+
+export interface SecurityProvider extends ProviderDefinition {
+  run: (url: string, context: ProviderContext) => Promise<SecurityCheck[]>;
+}
+
+// Binds a check implementation to the shared metadata entry with the same id,
+// so the definition list stays the single source of names, keys and timeouts.
+export const defineProvider = (id: string, run: SecurityProvider['run']): SecurityProvider => {
+  const definition = getProviderDefinition(id)
+  if (!definition) {
+    throw new Error(`Unknown security provider: ${id}`)
+  }
+  return { ...definition, run }
+}
@@ -0,0 +1,124 @@
+import type { CheckStatus, SecurityCheck } from '../../_shared/types.ts'
+import { pollUntil } from './polling.ts'
+import { defineProvider } from './types.ts'
+
+// urlscan.io asks clients to wait before the first result request and to
+// keep polling at a modest rate; a typical scan finishes in 10-30 seconds.
+const FIRST_POLL_DELAY_MS = 8000
+const POLL_INTERVAL_MS = 2500
+const MAX_POLL_ATTEMPTS = 10
+const MAX_CONTACTED_DOMAINS = 25
+
+interface UrlScanVerdict {
+  score?: number;
+  malicious?: boolean;
+  categories?: string[];
+  brands?: (string | { name?: string })[];
+}
+
+interface UrlScanResult {
+  task?: { reportURL?: string; screenshotURL?: string };
+  page?: { url?: string; domain?: string; ip?: string; country?: string };
+  lists?: { domains?: string[] };
+  verdicts?: { overall?: UrlScanVerdict; urlscan?: UrlScanVerdict };
+}
+
+const brandNames = (verdict: UrlScanVerdict): string[] =>
+  (verdict.brands ?? [])
+    .map(brand => typeof brand === 'string' ? brand : brand.name)
+    .filter((name): name is string => Boolean(name))
+
+const verdictStatus = (verdict: UrlScanVerdict): CheckStatus => {
+  const score = verdict.score ?? 0
+  if (verdict.malicious || score >= 50) return 'failed'
+  if (score > 0 || (verdict.categories ?? []).length > 0 || brandNames(verdict).length > 0) return 'warning'
+  return 'passed'
+}
+
+const describeVerdict = (verdict: UrlScanVerdict): string => {
+  const parts = [`Verdict score: ${verdict.score ?? 0}`]
+  if (verdict.categories?.length) {
+    parts.push(`Categories: ${verdict.categories.join(', ')}`)
+  }
+  const brands = brandNames(verdict)
+  if (brands.length) {
+    parts.push(`Impersonated brands: ${brands.join(', ')}`)
+  }
+  return parts.join(' | ')
+}
+
+const toUrlScanCheck = (result: UrlScanResult): SecurityCheck => {
+  const verdict = result.verdicts?.overall ?? result.verdicts?.urlscan ?? {}
+  const status = verdictStatus(verdict)
+
+  return {
+    name: 'URLScan.io Analysis',
+    status,
+    description: status === 'failed'
+      ? 'urlscan.io classified this page as malicious'
+      : status === 'warning'
+        ? 'urlscan.io flagged suspicious indicators'
+        : 'Deep URL and website analysis found no threats',
+    details: describeVerdict(verdict),
+    screenshot: result.task?.screenshotURL,
+    finalUrl: result.page?.url,
+    contactedDomains: (result.lists?.domains ?? []).slice(0, MAX_CONTACTED_DOMAINS),
+    reportUrl: result.task?.reportURL,
+    // A malicious verdict is definitive; otherwise trust grows with the score.
+    confidence: verdict.malicious ? 1 : Math.min(1, 0.4 + (verdict.score ?? 0) / 100)
+  }
+}
+
+export const urlScanProvider = defineProvider('urlscan', async (url, { apiKeys, signal }) => {
+  const headers = {
+    'API-Key': apiKeys.URLSCAN_API_KEY,
+    'Content-Type': 'application/json',
+  }
+
+  const scanResponse = await fetch('https://urlscan.io/api/v1/scan/', {
+    method: 'POST',
+    signal,
+    headers,
+    body: JSON.stringify({
+      url: url,
+      visibility: 'private'
+    })
+  })
+  const scanData = await scanResponse.json()
+  console.log('URLScan.io scan initiated:', scanData)
+
+  if (!scanResponse.ok || !scanData.uuid) {
+    throw new Error(scanData.message || `URLScan.io rejected the submission (${scanResponse.status})`)
+  }
+
+  const result = await pollUntil<UrlScanResult>(async () => {
+    const resultResponse = await fetch(`https://urlscan.io/api/v1/result/${scanData.uuid}/`, { signal, headers })
+    // 404 means the scan has not finished yet.
+    if (resultResponse.status === 404) {
+      await resultResponse.body?.cancel()
+      return null
+    }
+    if (!resultResponse.ok) {
+      throw new Error(`URLScan.io result request failed (${resultResponse.status})`)
+    }
+    return await resultResponse.json()
+  }, {
+    initialDelayMs: FIRST_POLL_DELAY_MS,
+    intervalMs: POLL_INTERVAL_MS,
+    maxAttempts: MAX_POLL_ATTEMPTS,
+    signal
+  })
+
+  if (!result) {
+    return [{
+      name: 'URLScan.io Analysis',
+      status: 'timeout',
+      description: 'URLScan.io analysis did not finish in time',
+      details: `Scan ${scanData.uuid} is still running - no verdict is available yet`,
+      reportUrl: scanData.result
+    }]
+  }
+
+  console.log('URLScan.io verdicts:', result.verdicts?.overall)
+  return [toUrlScanCheck(result)]
+})
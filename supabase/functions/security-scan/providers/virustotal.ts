@@ -0,0 +1,131 @@
+import type { EngineReport, SecurityCheck } from '../../_shared/types.ts'
+import { pollUntil } from './polling.ts'
+import { defineProvider } from './types.ts'
+
+const VT_API = 'https://www.virustotal.com/api/v3'
+
+// The public API allows 4 requests per minute: one lookup, one submission
+// and at most two analysis polls keep a fresh URL inside that quota.
+const FIRST_POLL_DELAY_MS = 15000
+const POLL_INTERVAL_MS = 12000
+const MAX_POLL_ATTEMPTS = 2
+
+interface VtEngineResult {
+  category: string;
+  result: string | null;
+  engine_name?: string;
+  engine_version?: string;
+  engine_update?: string;
+}
+
+type VtResults = Record<string, VtEngineResult>
+
+interface VtStats {
+  malicious?: number;
+  suspicious?: number;
+}
+
+// VirusTotal identifies URLs by their unpadded base64url encoding.
+const urlIdentifier = (url: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(url))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+
+const isDetection = (category: string) => category === 'malicious' || category === 'suspicious'
+
+const toEngineReport = (results: VtResults, urlId: string, scannedAt?: number): EngineReport => {
+  const scans = Object.fromEntries(
+    Object.entries(results).map(([engine, result]) => [engine, {
+      detected: isDetection(result.category),
+      result: result.result ?? result.category,
+      version: result.engine_version,
+      update: result.engine_update
+    }])
+  )
+
+  return {
+    scans,
+    positives: Object.values(scans).filter(scan => scan.detected).length,
+    total: Object.keys(scans).length,
+    scan_date: scannedAt ? new Date(scannedAt * 1000).toISOString() : new Date().toISOString(),
+    permalink: `https://www.virustotal.com/gui/url/${urlId}`
+  }
+}
+
+const toCheck = (results: VtResults, stats: VtStats, urlId: string, scannedAt?: number): SecurityCheck => {
+  const engines = toEngineReport(results, urlId, scannedAt)
+  const malicious = stats.malicious ?? 0
+  const suspicious = stats.suspicious ?? 0
+
+  return {
+    name: 'VirusTotal Scan',
+    status: malicious > 0 ? 'failed' : suspicious > 0 ? 'warning' : 'passed',
+    description: `Scanned by ${engines.total} engines`,
+    details: engines.positives > 0
+      ? `${malicious} engines flagged as malicious, ${suspicious} as suspicious`
+      : 'No threats detected',
+    engines
+  }
+}
+
+const ensureOk = async (response: Response, action: string) => {
+  if (response.status === 429) {
+    throw new Error('VirusTotal API quota exceeded - try again in a minute')
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null)
+    throw new Error(body?.error?.message || `VirusTotal ${action} failed (${response.status})`)
+  }
+}
+
+export const virusTotalProvider = defineProvider('virustotal', async (url, { apiKeys, signal }) => {
+  const headers = { 'x-apikey': apiKeys.VIRUSTOTAL_API_KEY }
+  const urlId = urlIdentifier(url)
+
+  const lookupResponse = await fetch(`${VT_API}/urls/${urlId}`, { headers, signal })
+  if (lookupResponse.status !== 404) {
+    await ensureOk(lookupResponse, 'lookup')
+    const { data } = await lookupResponse.json()
+    const attributes = data.attributes
+    console.log('VirusTotal report found:', attributes.last_analysis_stats)
+
+    return [toCheck(attributes.last_analysis_results, attributes.last_analysis_stats, data.id, attributes.last_analysis_date)]
+  }
+  await lookupResponse.body?.cancel()
+
+  // Unknown URL: submit it for analysis and wait for the verdict.
+  console.log('URL not known to VirusTotal, submitting for analysis...')
+  const submitResponse = await fetch(`${VT_API}/urls`, {
+    method: 'POST',
+    signal,
+    headers: {
+      ...headers,
+      'Content-Type': 'application/x-www-form-urlencoded'
+    },
+    body: new URLSearchParams({ url })
+  })
+  await ensureOk(submitResponse, 'submission')
+  const { data: submission } = await submitResponse.json()
+
+  const analysis = await pollUntil(async () => {
+    const analysisResponse = await fetch(`${VT_API}/analyses/${submission.id}`, { headers, signal })
+    await ensureOk(analysisResponse, 'analysis')
+    const body = await analysisResponse.json()
+    return body.data.attributes.status === 'completed' ? body : null
+  }, {
+    initialDelayMs: FIRST_POLL_DELAY_MS,
+    intervalMs: POLL_INTERVAL_MS,
+    maxAttempts: MAX_POLL_ATTEMPTS,
+    signal
+  })
+
+  if (!analysis) {
+    return [{
+      name: 'VirusTotal Scan',
+      status: 'timeout',
+      description: 'URL submitted to VirusTotal for the first time',
+      details: 'The analysis is still queued - re-scan shortly for the engine verdicts'
+    }]
+  }
+
+  const { attributes } = analysis.data
+  return [toCheck(attributes.results, attributes.stats, analysis.meta?.url_info?.id ?? urlId, attributes.date)]
+})
@@ -0,0 +1,226 @@
+import { isIpAddress } from '../_shared/domain.ts'
+import type { RedirectChain, RedirectHop, RedirectKind, RedirectStopReason } from '../_shared/types.ts'
+
+// QR codes often point at shorteners or tracking redirectors, so the literal
+// URL says little about where the user ends up. The chain is resolved before
+// the providers run so they can check the final destination as well.
+
+export const MAX_REDIRECT_HOPS = 10
+export const REDIRECT_TIMEOUT_MS = 8000
+
+// Meta refresh and script redirects sit near the top of the page.
+const MAX_BODY_BYTES = 64 * 1024
+
+// Some shorteners serve an interstitial instead of a redirect to clients
+// they do not recognise as a browser.
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36'
+
+const PRIVATE_HOST_PATTERNS = [
+  /^localhost$/,
+  /^127\./,
+  /^10\./,
+  /^192\.168\./,
+  /^172\.(1[6-9]|2\d|3[01])\./,
+  /^169\.254\./,
+  /^100\.(6[4-9]|[7-9]\d|1[01]\d|12[0-7])\./,
+  /^0\./
+]
+
+// Keeps the function from being used to probe its own network. IPv6
+// literals are refused outright rather than range-checked.
+export const isPrivateHost = (hostname: string) =>
+  PRIVATE_HOST_PATTERNS.some(pattern => pattern.test(hostname)) ||
+  (isIpAddress(hostname) && hostname.includes(':'))
+
+// Resolved addresses are range-checked instead, or every site reachable over
+// IPv6 would be refused: loopback, unspecified, unique local, link-local and
+// IPv4-mapped private addresses.
+const isPrivateIpv6 = (address: string) => {
+  const lower = address.toLowerCase()
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (mapped) return isPrivateHost(mapped[1])
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower)
+}
+
+// A public name can still point into the private network. Every address it
+// resolves to is checked, since fetch may connect to any of them. A name that
+// does not resolve is left for fetch to fail on.
+export const resolvesToPrivateAddress = async (hostname: string, signal?: AbortSignal): Promise<boolean> => {
+  if (isIpAddress(hostname)) return false
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A', { signal }),
+    Deno.resolveDns(hostname, 'AAAA', { signal })
+  ])
+  if (signal?.aborted) throw signal.reason ?? new Error('DNS lookup aborted')
+  return lookups.some(lookup => lookup.status === 'fulfilled' && lookup.value.some(address =>
+    address.includes(':') ? isPrivateIpv6(address) : isPrivateHost(address)
+  ))
+}
+
+const decodeEntities = (value: string) =>
+  value.replace(/&amp;/gi, '&').replace(/&#x2f;/gi, '/').replace(/&#47;/g, '/').replace(/&quot;/gi, '"')
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? match[1] ?? match[2] ?? match[3] : undefined
+}
+
+// <meta http-equiv="refresh" content="0; url=https://example.com">
+export const findMetaRefresh = (html: string): string | null => {
+  for (const tag of html.match(/<meta\b[^>]*>/gi) ?? []) {
+    if (getAttribute(tag, 'http-equiv')?.toLowerCase() !== 'refresh') continue
+    const target = getAttribute(tag, 'content')?.match(/^\s*[\d.]*\s*[;,]?\s*url\s*=\s*['"]?([^'"]+)['"]?\s*$/i)
+    if (target) return decodeEntities(target[1].trim())
+  }
+  return null
+}
+
+const SCRIPT_LOCATION_PATTERNS = [
+  /\b(?:(?:window|document|top|self)\.)?location(?:\.href)?\s*=\s*(['"`])(.+?)\1/,
+  /\blocation\.(?:replace|assign)\(\s*(['"`])(.+?)\1\s*\)/
+]
+
+// Only literal string assignments inside inline scripts; anything computed
+// is left to the sandbox providers that actually run the page.
+export const findScriptRedirect = (html: string): string | null => {
+  for (const [, script] of html.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/gi)) {
+    for (const pattern of SCRIPT_LOCATION_PATTERNS) {
+      const match = script.match(pattern)
+      if (match && !match[2].includes('${')) return match[2]
+    }
+  }
+  return null
+}
+
+const readPageHead = async (response: Response): Promise<string> => {
+  if (!response.body) return ''
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let html = ''
+  let bytes = 0
+
+  try {
+    while (bytes < MAX_BODY_BYTES) {
+      const { value, done } = await reader.read()
+      if (done) break
+      bytes += value.byteLength
+      html += decoder.decode(value, { stream: true })
+    }
+  } finally {
+    await reader.cancel().catch(() => {})
+  }
+  return html
+}
+
+// Looks at one response and returns the next URL, if the page redirects.
+const nextHop = async (response: Response, currentUrl: string): Promise<{ url: string; via: RedirectKind } | null> => {
+  const location = response.headers.get('Location')
+  if (response.status >= 300 && response.status < 400 && location) {
+    await response.body?.cancel()
+    return { url: new URL(location, currentUrl).href, via: 'http' }
+  }
+
+  if (!response.ok || !response.headers.get('Content-Type')?.includes('html')) {
+    await response.body?.cancel()
+    return null
+  }
+
+  const html = await readPageHead(response)
+  const metaTarget = findMetaRefresh(html)
+  if (metaTarget) return { url: new URL(metaTarget, currentUrl).href, via: 'meta-refresh' }
+
+  const scriptTarget = findScriptRedirect(html)
+  if (scriptTarget) return { url: new URL(scriptTarget, currentUrl).href, via: 'javascript' }
+
+  return null
+}
+
+export interface ResolveRedirectOptions {
+  maxHops?: number;
+  signal?: AbortSignal;
+}
+
+// Follows HTTP 3xx responses, meta refresh tags and simple script redirects
+// until a page stops redirecting or a limit is hit. Every visited URL is
+// recorded as a hop; the first hop is the URL that was passed in.
+export const resolveRedirectChain = async (
+  url: string,
+  { maxHops = MAX_REDIRECT_HOPS, signal }: ResolveRedirectOptions = {}
+): Promise<RedirectChain> => {
+  const hops: RedirectHop[] = []
+  const visited = new Set<string>()
+
+  const finish = (stopReason?: RedirectStopReason, error?: string): RedirectChain => ({
+    hops,
+    finalUrl: hops.length > 0 ? hops[hops.length - 1].url : url,
+    ...(stopReason && { stopReason }),
+    ...(error && { error })
+  })
+
+  let current: string
+  try {
+    current = new URL(url).href
+  } catch {
+    return finish()
+  }
+  let via: RedirectKind | undefined
+
+  for (;;) {
+    const parsed = new URL(current)
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      hops.push({ url: current, via })
+      return finish(hops.length > 1 ? 'unsupported-scheme' : undefined)
+    }
+    const hostname = parsed.hostname.replace(/^\[|\]$/g, '')
+    if (isPrivateHost(hostname)) {
+      hops.push({ url: current, via })
+      return finish('blocked')
+    }
+    try {
+      // Checked before every hop: each one may lead to a new name.
+      if (await resolvesToPrivateAddress(hostname, signal)) {
+        hops.push({ url: current, via })
+        return finish('blocked')
+      }
+    } catch {
+      hops.push({ url: current, via })
+      return finish('timeout')
+    }
+    if (visited.has(current)) {
+      hops.push({ url: current, via })
+      return finish('loop')
+    }
+    if (hops.length > maxHops) {
+      hops.push({ url: current, via })
+      return finish('hop-limit')
+    }
+    visited.add(current)
+
+    let response: Response
+    try {
+      // Deno hands back the 3xx response itself with `redirect: 'manual'`,
+      // unlike browsers, which hide it behind an opaque response.
+      response = await fetch(current, {
+        redirect: 'manual',
+        signal,
+        headers: { 'User-Agent': USER_AGENT, 'Accept': 'text/html,application/xhtml+xml,*/*;q=0.8' }
+      })
+    } catch (error) {
+      hops.push({ url: current, via })
+      if (signal?.aborted) return finish('timeout')
+      return finish('error', error instanceof Error ? error.message : String(error))
+    }
+
+    hops.push({ url: current, status: response.status, via })
+
+    try {
+      const next = await nextHop(response, current)
+      if (!next) return finish()
+      current = next.url
+      via = next.via
+    } catch (error) {
+      if (signal?.aborted) return finish('timeout')
+      return finish('error', error instanceof Error ? error.message : String(error))
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import type { ProviderOutcome, ScanEvent, ScanTarget, SecurityCheck } from '../_shared/types.ts'
+import type { ProviderContext, SecurityProvider } from './providers/index.ts'
+
+// Upper bound for a whole scan. Providers still running when it elapses are
+// aborted and reported as timed out, whatever their own deadline.
+export const SCAN_BUDGET_MS = 45000
+
+const TIMED_OUT = Symbol('timed-out')
+
+// Everything a provider receives except its abort signal, which the runner
+// creates per provider.
+export type ScanContext = Omit<ProviderContext, 'signal'>
+
+export interface RunOptions {
+  budgetMs?: number;
+  // Receives started / result / finished events as each provider progresses.
+  onEvent?: (event: ScanEvent) => void;
+  // Stamped on every check and event, so runs over several URLs of one
+  // redirect chain can be told apart.
+  target?: ScanTarget;
+  // Ends the run early, e.g. when the client has gone away. Providers still
+  // running are aborted as if the budget had run out.
+  signal?: AbortSignal;
+}
+
+const timeoutCheck = (provider: SecurityProvider, elapsedMs: number): SecurityCheck => ({
+  name: provider.name,
+  status: 'timeout',
+  description: `${provider.name} did not respond in time`,
+  details: `No response after ${(elapsedMs / 1000).toFixed(1)}s - the check was skipped`,
+  providerId: provider.id
+})
+
+const errorCheck = (provider: SecurityProvider, error: unknown): SecurityCheck => ({
+  name: provider.name,
+  status: 'error',
+  description: `Failed to check with ${provider.name}`,
+  details: error instanceof Error && error.message ? error.message : 'Service temporarily unavailable',
+  providerId: provider.id
+})
+
+const runProvider = async (
+  provider: SecurityProvider,
+  url: string,
+  context: ScanContext,
+  scanSignal: AbortSignal,
+  onEvent: (event: ScanEvent) => void,
+  target?: ScanTarget
+): Promise<ProviderOutcome> => {
+  const startedAt = Date.now()
+  const controller = new AbortController()
+  let timer: number | undefined
+  let onScanAbort: (() => void) | undefined
+
+  // Resolves when either the provider's own deadline or the scan budget
+  // passes. Racing against it means a provider that ignores its abort signal
+  // still cannot hold up the response.
+  const deadline = new Promise<typeof TIMED_OUT>((resolve) => {
+    onScanAbort = () => resolve(TIMED_OUT)
+    timer = setTimeout(onScanAbort, provider.timeoutMs)
+    if (scanSignal.aborted) {
+      onScanAbort()
+    } else {
+      scanSignal.addEventListener('abort', onScanAbort)
+    }
+  })
+
+  const outcome = (status: ProviderOutcome['status'], checks: SecurityCheck[]): ProviderOutcome => {
+    const result: ProviderOutcome = {
+      providerId: provider.id,
+      target,
+      status,
+      durationMs: Date.now() - startedAt,
+      checks: checks.map(check => ({ ...check, providerId: provider.id, target }))
+    }
+    onEvent({ type: 'result', providerId: provider.id, target, checks: result.checks })
+    onEvent({ type: 'finished', providerId: provider.id, target, status, durationMs: result.durationMs })
+    return result
+  }
+
+  try {
+    console.log(`Checking ${url} with ${provider.name}...`)
+    onEvent({ type: 'started', providerId: provider.id, target })
+    const result = await Promise.race([
+      provider.run(url, { ...context, signal: controller.signal }),
+      deadline
+    ])
+
+    if (result === TIMED_OUT) {
+      controller.abort()
+      console.warn(`${provider.name} timed out after ${Date.now() - startedAt}ms`)
+      return outcome('timeout', [timeoutCheck(provider, Date.now() - startedAt)])
+    }
+    return outcome('completed', result)
+  } catch (error) {
+    console.error(`${provider.name} error:`, error)
+    return outcome('error', [errorCheck(provider, error)])
+  } finally {
+    clearTimeout(timer)
+    if (onScanAbort) {
+      scanSignal.removeEventListener('abort', onScanAbort)
+    }
+  }
+}
+
+// Runs every provider concurrently, each bounded by its own `timeoutMs` and
+// all of them by the overall scan budget. Outcomes keep registry order.
+export const runProviders = async (
+  providers: SecurityProvider[],
+  url: string,
+  context: ScanContext,
+  { budgetMs = SCAN_BUDGET_MS, onEvent = () => {}, target, signal }: RunOptions = {}
+): Promise<ProviderOutcome[]> => {
+  const scanController = new AbortController()
+  const budgetTimer = setTimeout(() => scanController.abort(), budgetMs)
+  const scanSignal = signal ? AbortSignal.any([scanController.signal, signal]) : scanController.signal
+
+  try {
+    return await Promise.all(
+      providers.map(provider => runProvider(provider, url, context, scanSignal, onEvent, target))
+    )
+  } finally {
+    clearTimeout(budgetTimer)
+  }
+}
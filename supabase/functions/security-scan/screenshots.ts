@@ -0,0 +1,30 @@
+import { SCREENSHOT_BUCKET, SCREENSHOT_URL_TTL_SECONDS } from '../_shared/screenshots.ts'
+import { createAdminClient } from '../_shared/supabaseAdmin.ts'
+
+// Uploads a captured page to the private screenshot bucket and signs a URL
+// the browser can show right away. Paths are random, grouped by day. The
+// user who ran the scan is recorded as the owner: scan rows are written by
+// the browser, so only the owner's scans can grant access to the file.
+export const storeScreenshot = async (
+  image: ArrayBuffer,
+  userId: string | null,
+  contentType = 'image/png'
+): Promise<{ path: string; signedUrl: string }> => {
+  const path = `${new Date().toISOString().slice(0, 10)}/${crypto.randomUUID()}.png`
+  const client = createAdminClient()
+  const bucket = client.storage.from(SCREENSHOT_BUCKET)
+
+  const { error } = await bucket.upload(path, image, { contentType })
+  if (error) throw error
+
+  const { error: ownerError } = await client.from('scan_screenshots').insert({ path, user_id: userId })
+  if (ownerError) {
+    // Nobody could ever read a file without an owner.
+    await bucket.remove([path])
+    throw ownerError
+  }
+
+  const { data, error: signError } = await bucket.createSignedUrl(path, SCREENSHOT_URL_TTL_SECONDS)
+  if (signError) throw signError
+  return { path, signedUrl: data.signedUrl }
+}
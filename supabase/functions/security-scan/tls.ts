@@ -0,0 +1,72 @@
+import { connect, type PeerCertificate } from 'node:tls'
+import { isIpAddress } from '../_shared/domain.ts'
+import type { CertificateInfo } from '../_shared/types.ts'
+
+// Deno's own TLS API validates certificates but never hands them out, so the
+// transport check goes through the Node compatibility layer. Not every edge
+// runtime version fills in the peer certificate there; when it comes back
+// empty this resolves to null and the check reports HTTPS without details.
+
+const parseAltNames = (value?: string): string[] =>
+  (value ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry.startsWith('DNS:') || entry.startsWith('IP Address:'))
+    .map(entry => entry.replace(/^(DNS|IP Address):/, ''))
+
+const describeIssuer = (issuer: PeerCertificate['issuer']) =>
+  [issuer?.O, issuer?.CN].filter(Boolean).join(' - ') || 'Unknown issuer'
+
+const isSelfSigned = (certificate: PeerCertificate, authorizationError?: string) =>
+  authorizationError === 'DEPTH_ZERO_SELF_SIGNED_CERT' ||
+  JSON.stringify(certificate.issuer) === JSON.stringify(certificate.subject)
+
+// Completes a handshake without trusting anything, so invalid certificates
+// can be described rather than just refused.
+export const inspectCertificate = (hostname: string, port: number, signal: AbortSignal): Promise<CertificateInfo | null> =>
+  new Promise((resolve, reject) => {
+    const socket = connect({
+      host: hostname,
+      port,
+      servername: isIpAddress(hostname) ? undefined : hostname,
+      rejectUnauthorized: false
+    })
+
+    const onAbort = () => {
+      socket.destroy()
+      reject(signal.reason ?? new Error('TLS inspection aborted'))
+    }
+    if (signal.aborted) return onAbort()
+    signal.addEventListener('abort', onAbort, { once: true })
+
+    socket.once('secureConnect', () => {
+      signal.removeEventListener('abort', onAbort)
+      const certificate = socket.getPeerCertificate()
+      const authorizationError = socket.authorizationError ? String(socket.authorizationError) : undefined
+      const protocol = socket.getProtocol() ?? undefined
+      socket.end()
+
+      if (!certificate?.valid_to) {
+        resolve(null)
+        return
+      }
+      resolve({
+        subject: certificate.subject?.CN,
+        issuer: describeIssuer(certificate.issuer),
+        validFrom: new Date(certificate.valid_from).toISOString(),
+        validTo: new Date(certificate.valid_to).toISOString(),
+        subjectAltNames: certificate.subjectaltname
+          ? parseAltNames(certificate.subjectaltname)
+          : [certificate.subject?.CN].filter(Boolean),
+        protocol,
+        selfSigned: isSelfSigned(certificate, authorizationError),
+        authorizationError
+      })
+    })
+
+    socket.once('error', (error) => {
+      signal.removeEventListener('abort', onAbort)
+      socket.destroy()
+      reject(error)
+    })
+  })
@@ -0,0 +1,55 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { getCallerId, loadUserApiKeys, recordApiKeyValidation } from '../_shared/apiKeys.ts'
+import { corsHeaders } from '../_shared/cors.ts'
+import { apiKeyNames } from '../_shared/providers.ts'
+import type { ApiKeyName } from '../_shared/types.ts'
+import { validateApiKey } from './validators.ts'
+
+console.log("API key validation function loaded")
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json'
+    }
+  })
+
+// Tests one provider key for the signed-in caller. Without `keyValue` the key
+// stored on the account is tested and the result saved next to it; with it,
+// a key the user has typed but not yet saved is tested and nothing is stored.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const userId = await getCallerId(req)
+    if (!userId) {
+      return json({ error: 'Sign in to test API keys' }, 401)
+    }
+
+    const { keyName, keyValue } = await req.json()
+    if (!apiKeyNames.includes(keyName)) {
+      return json({ error: `Unknown API key: ${keyName}` }, 400)
+    }
+
+    const typedKey = typeof keyValue === 'string' ? keyValue.trim() : ''
+    const key = typedKey || (await loadUserApiKeys(userId))[keyName as ApiKeyName]
+    if (!key) {
+      return json({ error: 'No key is saved for this provider' }, 404)
+    }
+
+    const validation = await validateApiKey(keyName, key)
+    console.log('API key validated:', { keyName, status: validation.status })
+
+    if (!typedKey) {
+      await recordApiKeyValidation(userId, validation)
+    }
+    return json(validation)
+  } catch (error) {
+    console.error('API key validation error:', error)
+    return json({ error: 'Internal server error' }, 500)
+  }
+})
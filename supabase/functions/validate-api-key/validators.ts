@@ -0,0 +1,162 @@
+import type { ApiKeyName, ApiKeyQuota, ApiKeyValidation, ApiKeyValidationStatus } from '../_shared/types.ts'
+
+// Every outbound request goes through the transport, so tests can answer
+// with canned responses instead of calling the providers.
+export type Transport = (url: string, init?: RequestInit) => Promise<Response>
+
+export const VALIDATION_TIMEOUT_MS = 10000
+
+type ValidationResult = Omit<ApiKeyValidation, 'keyName' | 'validatedAt'>
+
+interface ValidatorContext {
+  transport: Transport;
+  signal: AbortSignal;
+}
+
+type Validator = (key: string, context: ValidatorContext) => Promise<ValidationResult>
+
+const result = (status: ApiKeyValidationStatus, message: string, quotas?: ApiKeyQuota[]): ValidationResult =>
+  quotas && quotas.length > 0 ? { status, message, quotas } : { status, message }
+
+// Shared handling for the status codes every provider uses the same way.
+const fromStatus = (response: Response, provider: string): ValidationResult | null => {
+  if (response.status === 401 || response.status === 403) {
+    return result('invalid', `${provider} rejected the key`)
+  }
+  if (response.status === 429) {
+    return result('quota-exceeded', `The key is valid but its ${provider} quota is used up`)
+  }
+  if (!response.ok) {
+    return result('error', `${provider} answered with status ${response.status} - try again later`)
+  }
+  return null
+}
+
+const toQuota = (period: string, used: unknown, limit: unknown): ApiKeyQuota | null => {
+  if (typeof limit !== 'number' || limit <= 0) return null
+  const usedCount = typeof used === 'number' ? used : undefined
+  return {
+    period,
+    used: usedCount,
+    limit,
+    ...(usedCount !== undefined && { remaining: Math.max(limit - usedCount, 0) })
+  }
+}
+
+// The quotas endpoint accepts the key itself as the user id.
+const validateVirusTotal: Validator = async (key, { transport, signal }) => {
+  const response = await transport(`https://www.virustotal.com/api/v3/users/${encodeURIComponent(key)}/overall_quotas`, {
+    headers: { 'x-apikey': key },
+    signal
+  })
+  const failure = fromStatus(response, 'VirusTotal')
+  if (failure) return failure
+
+  const { data } = await response.json()
+  const quotas = [
+    toQuota('hourly', data?.api_requests_hourly?.user?.used, data?.api_requests_hourly?.user?.allowed),
+    toQuota('daily', data?.api_requests_daily?.user?.used, data?.api_requests_daily?.user?.allowed),
+    toQuota('monthly', data?.api_requests_monthly?.user?.used, data?.api_requests_monthly?.user?.allowed)
+  ].filter((quota): quota is ApiKeyQuota => quota !== null)
+
+  return quotas.some(quota => quota.remaining === 0)
+    ? result('quota-exceeded', 'The key is valid but a VirusTotal quota is used up', quotas)
+    : result('valid', 'VirusTotal accepted the key', quotas)
+}
+
+// Safe Browsing has no account endpoint; an empty lookup proves the key works.
+const validateSafeBrowsing: Validator = async (key, { transport, signal }) => {
+  const response = await transport(`https://safebrowsing.googleapis.com/v4/threatMatches:find?key=${encodeURIComponent(key)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      client: { clientId: 'qr-shield', clientVersion: '1.0.0' },
+      threatInfo: {
+        threatTypes: ['MALWARE'],
+        platformTypes: ['ANY_PLATFORM'],
+        threatEntryTypes: ['URL'],
+        threatEntries: [{ url: 'https://example.com/' }]
+      }
+    }),
+    signal
+  })
+
+  // Google reports bad keys as 400 API_KEY_INVALID rather than 401.
+  if (response.status === 400) {
+    const body = await response.json().catch(() => null)
+    if (JSON.stringify(body ?? {}).includes('API_KEY_INVALID')) {
+      return result('invalid', 'Google rejected the key')
+    }
+  }
+  return fromStatus(response, 'Google Safe Browsing')
+    ?? result('valid', 'Google Safe Browsing accepted the key - Google does not report remaining quota')
+}
+
+const validateUrlScan: Validator = async (key, { transport, signal }) => {
+  const response = await transport('https://urlscan.io/user/quotas/', {
+    headers: { 'API-Key': key },
+    signal
+  })
+  const failure = fromStatus(response, 'urlscan.io')
+  if (failure) return failure
+
+  const body = await response.json()
+  const publicScans = body?.limits?.public ?? {}
+  const quotas = (['minute', 'hour', 'day'] as const)
+    .map(period => toQuota(`public scans per ${period}`, publicScans[period]?.used, publicScans[period]?.limit))
+    .filter((quota): quota is ApiKeyQuota => quota !== null)
+
+  return quotas.some(quota => quota.remaining === 0)
+    ? result('quota-exceeded', 'The key is valid but its urlscan.io scan quota is used up', quotas)
+    : result('valid', 'urlscan.io accepted the key', quotas)
+}
+
+const validateIpInfo: Validator = async (key, { transport, signal }) => {
+  const response = await transport(`https://ipinfo.io/me?token=${encodeURIComponent(key)}`, { signal })
+  const failure = fromStatus(response, 'IPinfo')
+  if (failure) return failure
+
+  const body = await response.json()
+  const requests = body?.requests ?? {}
+  const quota = toQuota('monthly', requests.month, requests.limit)
+  return quota?.remaining === 0
+    ? result('quota-exceeded', 'The key is valid but its IPinfo quota is used up', [quota])
+    : result('valid', 'IPinfo accepted the key', quota ? [quota] : undefined)
+}
+
+const validateBrowserless: Validator = async (key, { transport, signal }) => {
+  const response = await transport(`https://chrome.browserless.io/json/version?token=${encodeURIComponent(key)}`, { signal })
+  return fromStatus(response, 'Browserless')
+    ?? result('valid', 'Browserless accepted the key - usage is shown in the Browserless dashboard')
+}
+
+const validators: Record<ApiKeyName, Validator> = {
+  VIRUSTOTAL_API_KEY: validateVirusTotal,
+  GOOGLE_SAFE_BROWSING_API_KEY: validateSafeBrowsing,
+  URLSCAN_API_KEY: validateUrlScan,
+  IPINFO_API_KEY: validateIpInfo,
+  BROWSERLESS_API_KEY: validateBrowserless
+}
+
+// Makes one cheap authenticated call to the provider behind `keyName` and
+// reports whether the key works and how much quota is left.
+export const validateApiKey = async (
+  keyName: ApiKeyName,
+  key: string,
+  { transport = fetch, timeoutMs = VALIDATION_TIMEOUT_MS }: { transport?: Transport; timeoutMs?: number } = {}
+): Promise<ApiKeyValidation> => {
+  const validatedAt = new Date().toISOString()
+  try {
+    const outcome = await validators[keyName](key, { transport, signal: AbortSignal.timeout(timeoutMs) })
+    return { keyName, ...outcome, validatedAt }
+  } catch (error) {
+    console.error(`Validating ${keyName} failed:`, error)
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError'
+    return {
+      keyName,
+      status: 'error',
+      message: timedOut ? 'The provider did not answer in time - try again later' : 'Could not reach the provider - try again later',
+      validatedAt
+    }
+  }
+}
@@ -0,0 +1,153 @@
+-- Store provider API keys in Supabase Vault instead of plaintext jsonb.
+-- user_api_keys now only maps each key name to its Vault secret, plus the
+-- last four characters for the settings page. Browsers change keys through
+-- the set/delete functions below and never read them back; only the
+-- service role (the security-scan edge function) can decrypt them.
+
+create extension if not exists supabase_vault with schema vault;
+
+alter table public.user_api_keys
+  add column secret_ids jsonb not null default '{}',
+  add column key_hints jsonb not null default '{}';
+
+-- Move keys saved before this migration into Vault
+do $$
+declare
+  entry record;
+  key_name text;
+  key_value text;
+begin
+  for entry in select id, user_id, api_keys from public.user_api_keys loop
+    for key_name, key_value in select * from jsonb_each_text(entry.api_keys) loop
+      if coalesce(trim(key_value), '') <> '' then
+        update public.user_api_keys
+          set secret_ids = secret_ids || jsonb_build_object(
+                key_name,
+                vault.create_secret(trim(key_value), 'user_api_key:' || entry.user_id || ':' || key_name)
+              ),
+              key_hints = key_hints || jsonb_build_object(key_name, right(trim(key_value), 4))
+          where id = entry.id;
+      end if;
+    end loop;
+  end loop;
+end $$;
+
+alter table public.user_api_keys drop column api_keys;
+
+-- Rows may only change through the functions below, so a client cannot point
+-- its row at someone else's secret
+drop policy "Users can insert their own API keys" on public.user_api_keys;
+drop policy "Users can update their own API keys" on public.user_api_keys;
+drop policy "Users can delete their own API keys" on public.user_api_keys;
+revoke insert, update, delete on public.user_api_keys from anon, authenticated;
+
+create or replace function public.set_user_api_key(key_name text, key_value text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  secret_id uuid;
+begin
+  if caller is null then
+    raise exception 'Sign in to store API keys';
+  end if;
+  if key_name !~ '^[A-Z][A-Z0-9_]*_API_KEY$' then
+    raise exception 'Unknown API key %', key_name;
+  end if;
+  if coalesce(trim(key_value), '') = '' then
+    raise exception 'API key must not be empty';
+  end if;
+
+  insert into public.user_api_keys (user_id) values (caller)
+    on conflict (user_id) do nothing;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.user_api_keys
+    where user_id = caller;
+
+  if secret_id is null then
+    secret_id := vault.create_secret(trim(key_value), 'user_api_key:' || caller || ':' || key_name);
+  else
+    perform vault.update_secret(secret_id, trim(key_value));
+  end if;
+
+  update public.user_api_keys
+    set secret_ids = secret_ids || jsonb_build_object(key_name, secret_id),
+        key_hints = key_hints || jsonb_build_object(key_name, right(trim(key_value), 4))
+    where user_id = caller;
+end;
+$$;
+
+create or replace function public.delete_user_api_key(key_name text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  secret_id uuid;
+begin
+  if caller is null then
+    raise exception 'Sign in to manage API keys';
+  end if;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.user_api_keys
+    where user_id = caller;
+
+  if secret_id is not null then
+    delete from vault.secrets where id = secret_id;
+  end if;
+
+  update public.user_api_keys
+    set secret_ids = secret_ids - key_name,
+        key_hints = key_hints - key_name
+    where user_id = caller;
+end;
+$$;
+
+-- Decrypted keys for one user, for edge functions running as service role
+create or replace function public.get_user_api_keys(target_user uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce(jsonb_object_agg(keys.key, secrets.decrypted_secret), '{}'::jsonb)
+  from public.user_api_keys api_keys
+  cross join lateral jsonb_each_text(api_keys.secret_ids) as keys(key, value)
+  join vault.decrypted_secrets secrets on secrets.id = keys.value::uuid
+  where api_keys.user_id = target_user;
+$$;
+
+revoke execute on function public.get_user_api_keys(uuid) from public, anon, authenticated;
+grant execute on function public.get_user_api_keys(uuid) to service_role;
+
+revoke execute on function public.set_user_api_key(text, text) from public, anon;
+revoke execute on function public.delete_user_api_key(text) from public, anon;
+grant execute on function public.set_user_api_key(text, text) to authenticated;
+grant execute on function public.delete_user_api_key(text) to authenticated;
+
+-- Deleting the row, including through the auth.users cascade, also removes
+-- its secrets from Vault
+create or replace function public.delete_user_api_key_secrets()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  delete from vault.secrets
+    where id in (select value::uuid from jsonb_each_text(old.secret_ids));
+  return old;
+end;
+$$;
+
+create trigger delete_user_api_key_secrets
+  after delete on public.user_api_keys
+  for each row execute function public.delete_user_api_key_secrets();
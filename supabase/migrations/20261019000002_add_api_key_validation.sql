@@ -0,0 +1,76 @@
+-- Latest validate-api-key result per key name: status, message, quotas and
+-- when it ran. Written by the edge function; readable by the key's owner.
+alter table public.user_api_keys
+  add column validation jsonb not null default '{}';
+
+-- A replaced or removed key's old test result no longer applies
+create or replace function public.set_user_api_key(key_name text, key_value text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  secret_id uuid;
+begin
+  if caller is null then
+    raise exception 'Sign in to store API keys';
+  end if;
+  if key_name !~ '^[A-Z][A-Z0-9_]*_API_KEY$' then
+    raise exception 'Unknown API key %', key_name;
+  end if;
+  if coalesce(trim(key_value), '') = '' then
+    raise exception 'API key must not be empty';
+  end if;
+
+  insert into public.user_api_keys (user_id) values (caller)
+    on conflict (user_id) do nothing;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.user_api_keys
+    where user_id = caller;
+
+  if secret_id is null then
+    secret_id := vault.create_secret(trim(key_value), 'user_api_key:' || caller || ':' || key_name);
+  else
+    perform vault.update_secret(secret_id, trim(key_value));
+  end if;
+
+  update public.user_api_keys
+    set secret_ids = secret_ids || jsonb_build_object(key_name, secret_id),
+        key_hints = key_hints || jsonb_build_object(key_name, right(trim(key_value), 4)),
+        validation = validation - key_name
+    where user_id = caller;
+end;
+$$;
+
+create or replace function public.delete_user_api_key(key_name text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  secret_id uuid;
+begin
+  if caller is null then
+    raise exception 'Sign in to manage API keys';
+  end if;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.user_api_keys
+    where user_id = caller;
+
+  if secret_id is not null then
+    delete from vault.secrets where id = secret_id;
+  end if;
+
+  update public.user_api_keys
+    set secret_ids = secret_ids - key_name,
+        key_hints = key_hints - key_name,
+        validation = validation - key_name
+    where user_id = caller;
+end;
+$$;
@@ -0,0 +1,381 @@
+-- Organizations let a team share provider keys and scan history. Each user
+-- belongs to at most one organization, so there is never a question of whose
+-- keys a scan uses or where it is filed. Roles, from most to least access:
+--   owner   - everything an admin can do, plus managing owners and deleting
+--             the organization
+--   admin   - manages the shared keys and the analyst/viewer/admin members
+--   analyst - scans with the shared keys; their scans belong to the
+--             organization
+--   viewer  - reads the organization's scans only
+-- Membership and shared keys only change through the functions below; RLS
+-- limits what members can read.
+
+create table public.organizations (
+  id uuid default gen_random_uuid() primary key,
+  name text not null check (length(trim(name)) between 1 and 100),
+  created_by uuid references auth.users(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create table public.organization_members (
+  organization_id uuid references public.organizations(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  role text not null check (role in ('owner', 'admin', 'analyst', 'viewer')),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (organization_id, user_id),
+  unique (user_id)
+);
+
+-- Shared keys live in Vault exactly like user_api_keys
+create table public.organization_api_keys (
+  organization_id uuid references public.organizations(id) on delete cascade primary key,
+  secret_ids jsonb not null default '{}',
+  key_hints jsonb not null default '{}',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create trigger handle_organizations_updated_at
+  before update on public.organizations
+  for each row execute function public.handle_updated_at();
+
+create trigger handle_organization_api_keys_updated_at
+  before update on public.organization_api_keys
+  for each row execute function public.handle_updated_at();
+
+create trigger delete_organization_api_key_secrets
+  after delete on public.organization_api_keys
+  for each row execute function public.delete_user_api_key_secrets();
+
+-- The caller's role in `org`, or null. Security definer so policies on
+-- organization_members can use it without recursing into themselves.
+create or replace function public.organization_role(org uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select role from public.organization_members
+    where organization_id = org and user_id = auth.uid();
+$$;
+
+alter table public.organizations enable row level security;
+alter table public.organization_members enable row level security;
+alter table public.organization_api_keys enable row level security;
+
+create policy "Members can view their organization" on public.organizations
+  for select using (public.organization_role(id) is not null);
+
+create policy "Admins can rename their organization" on public.organizations
+  for update using (public.organization_role(id) in ('owner', 'admin'));
+
+create policy "Owners can delete their organization" on public.organizations
+  for delete using (public.organization_role(id) = 'owner');
+
+create policy "Members can view their organization's members" on public.organization_members
+  for select using (public.organization_role(organization_id) is not null);
+
+create policy "Members can see which shared keys are set" on public.organization_api_keys
+  for select using (public.organization_role(organization_id) is not null);
+
+revoke insert, update on public.organizations from anon, authenticated;
+grant update (name) on public.organizations to authenticated;
+revoke insert, update, delete on public.organization_members from anon, authenticated;
+revoke insert, update, delete on public.organization_api_keys from anon, authenticated;
+
+create or replace function public.create_organization(org_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  org_id uuid;
+begin
+  if caller is null then
+    raise exception 'Sign in to create an organization';
+  end if;
+  if exists (select 1 from public.organization_members where user_id = caller) then
+    raise exception 'Leave your current organization before creating another';
+  end if;
+
+  insert into public.organizations (name, created_by) values (trim(org_name), caller)
+    returning id into org_id;
+  insert into public.organization_members (organization_id, user_id, role)
+    values (org_id, caller, 'owner');
+  return org_id;
+end;
+$$;
+
+-- Members with their sign-in email, which other members cannot read from
+-- auth.users themselves
+create or replace function public.list_organization_members(org uuid)
+returns table (user_id uuid, email text, role text, joined_at timestamp with time zone)
+language plpgsql
+stable
+security definer
+set search_path = ''
+as $$
+begin
+  if public.organization_role(org) is null then
+    raise exception 'Not a member of this organization';
+  end if;
+
+  return query
+    select members.user_id, users.email::text, members.role, members.created_at
+    from public.organization_members members
+    join auth.users users on users.id = members.user_id
+    where members.organization_id = org
+    order by members.created_at;
+end;
+$$;
+
+-- Adds someone who already has an account, looked up by email
+create or replace function public.add_organization_member(org uuid, member_email text, member_role text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_role text := public.organization_role(org);
+  member uuid;
+begin
+  if caller_role is null or caller_role not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can add members';
+  end if;
+  if member_role not in ('owner', 'admin', 'analyst', 'viewer') then
+    raise exception 'Unknown role %', member_role;
+  end if;
+  if member_role = 'owner' and caller_role <> 'owner' then
+    raise exception 'Only owners can add owners';
+  end if;
+
+  select id into member from auth.users where lower(email) = lower(trim(member_email));
+  if member is null then
+    raise exception 'No account uses %', trim(member_email);
+  end if;
+  if exists (select 1 from public.organization_members where user_id = member) then
+    raise exception '% already belongs to an organization', trim(member_email);
+  end if;
+
+  insert into public.organization_members (organization_id, user_id, role)
+    values (org, member, member_role);
+end;
+$$;
+
+create or replace function public.update_organization_member_role(org uuid, member uuid, member_role text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_role text := public.organization_role(org);
+  existing_role text;
+begin
+  if caller_role is null or caller_role not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can change roles';
+  end if;
+  if member_role not in ('owner', 'admin', 'analyst', 'viewer') then
+    raise exception 'Unknown role %', member_role;
+  end if;
+
+  select role into existing_role from public.organization_members
+    where organization_id = org and user_id = member;
+  if existing_role is null then
+    raise exception 'Not a member of this organization';
+  end if;
+  if (existing_role = 'owner' or member_role = 'owner') and caller_role <> 'owner' then
+    raise exception 'Only owners can grant or change the owner role';
+  end if;
+  if existing_role = 'owner' and member_role <> 'owner' and (
+    select count(*) from public.organization_members where organization_id = org and role = 'owner'
+  ) = 1 then
+    raise exception 'The organization needs at least one owner';
+  end if;
+
+  update public.organization_members set role = member_role
+    where organization_id = org and user_id = member;
+end;
+$$;
+
+-- Removes a member, or lets the caller leave. Scans they filed under the
+-- organization stay with it.
+create or replace function public.remove_organization_member(org uuid, member uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_role text := public.organization_role(org);
+  existing_role text;
+begin
+  select role into existing_role from public.organization_members
+    where organization_id = org and user_id = member;
+  if caller_role is null or existing_role is null then
+    raise exception 'Not a member of this organization';
+  end if;
+  if member <> auth.uid() and (
+    caller_role not in ('owner', 'admin') or (existing_role = 'owner' and caller_role <> 'owner')
+  ) then
+    raise exception 'You cannot remove this member';
+  end if;
+  if existing_role = 'owner' and (
+    select count(*) from public.organization_members where organization_id = org and role = 'owner'
+  ) = 1 then
+    raise exception 'The organization needs at least one owner - delete it or promote someone first';
+  end if;
+
+  delete from public.organization_members where organization_id = org and user_id = member;
+end;
+$$;
+
+create or replace function public.set_organization_api_key(org uuid, key_name text, key_value text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  secret_id uuid;
+begin
+  if coalesce(public.organization_role(org), '') not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can manage shared API keys';
+  end if;
+  if key_name !~ '^[A-Z][A-Z0-9_]*_API_KEY$' then
+    raise exception 'Unknown API key %', key_name;
+  end if;
+  if coalesce(trim(key_value), '') = '' then
+    raise exception 'API key must not be empty';
+  end if;
+
+  insert into public.organization_api_keys (organization_id) values (org)
+    on conflict (organization_id) do nothing;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.organization_api_keys
+    where organization_id = org;
+
+  if secret_id is null then
+    secret_id := vault.create_secret(trim(key_value), 'organization_api_key:' || org || ':' || key_name);
+  else
+    perform vault.update_secret(secret_id, trim(key_value));
+  end if;
+
+  update public.organization_api_keys
+    set secret_ids = secret_ids || jsonb_build_object(key_name, secret_id),
+        key_hints = key_hints || jsonb_build_object(key_name, right(trim(key_value), 4))
+    where organization_id = org;
+end;
+$$;
+
+create or replace function public.delete_organization_api_key(org uuid, key_name text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  secret_id uuid;
+begin
+  if coalesce(public.organization_role(org), '') not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can manage shared API keys';
+  end if;
+
+  select (secret_ids ->> key_name)::uuid into secret_id
+    from public.organization_api_keys
+    where organization_id = org;
+
+  if secret_id is not null then
+    delete from vault.secrets where id = secret_id;
+  end if;
+
+  update public.organization_api_keys
+    set secret_ids = secret_ids - key_name,
+        key_hints = key_hints - key_name
+    where organization_id = org;
+end;
+$$;
+
+-- The keys a scan by `target_user` runs with: the organization's shared keys
+-- for analysts and above, with the user's own keys taking precedence
+create or replace function public.get_scan_api_keys(target_user uuid)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select coalesce((
+    select jsonb_object_agg(keys.key, secrets.decrypted_secret)
+    from public.organization_members members
+    join public.organization_api_keys org_keys on org_keys.organization_id = members.organization_id
+    cross join lateral jsonb_each_text(org_keys.secret_ids) as keys(key, value)
+    join vault.decrypted_secrets secrets on secrets.id = keys.value::uuid
+    where members.user_id = target_user
+      and members.role in ('owner', 'admin', 'analyst')
+  ), '{}'::jsonb) || public.get_user_api_keys(target_user);
+$$;
+
+revoke execute on function public.get_scan_api_keys(uuid) from public, anon, authenticated;
+grant execute on function public.get_scan_api_keys(uuid) to service_role;
+
+revoke execute on function public.organization_role(uuid) from public, anon;
+revoke execute on function public.create_organization(text) from public, anon;
+revoke execute on function public.list_organization_members(uuid) from public, anon;
+revoke execute on function public.add_organization_member(uuid, text, text) from public, anon;
+revoke execute on function public.update_organization_member_role(uuid, uuid, text) from public, anon;
+revoke execute on function public.remove_organization_member(uuid, uuid) from public, anon;
+revoke execute on function public.set_organization_api_key(uuid, text, text) from public, anon;
+revoke execute on function public.delete_organization_api_key(uuid, text) from public, anon;
+grant execute on function public.organization_role(uuid) to authenticated;
+grant execute on function public.create_organization(text) to authenticated;
+grant execute on function public.list_organization_members(uuid) to authenticated;
+grant execute on function public.add_organization_member(uuid, text, text) to authenticated;
+grant execute on function public.update_organization_member_role(uuid, uuid, text) to authenticated;
+grant execute on function public.remove_organization_member(uuid, uuid) to authenticated;
+grant execute on function public.set_organization_api_key(uuid, text, text) to authenticated;
+grant execute on function public.delete_organization_api_key(uuid, text) to authenticated;
+
+-- Scans by analysts and above are filed under their organization. The
+-- trigger decides rather than the client, so nobody can file a scan with an
+-- organization they do not scan for.
+alter table public.qr_scan_results
+  add column organization_id uuid references public.organizations(id) on delete set null;
+
+create index idx_qr_scan_results_organization_id on public.qr_scan_results(organization_id);
+
+create or replace function public.assign_scan_organization()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  new.organization_id := (
+    select organization_id from public.organization_members
+      where user_id = new.user_id and role in ('owner', 'admin', 'analyst')
+  );
+  return new;
+end;
+$$;
+
+create trigger assign_scan_organization
+  before insert on public.qr_scan_results
+  for each row execute function public.assign_scan_organization();
+
+drop policy "Users can view their own scan results" on public.qr_scan_results;
+
+create policy "Users can view their own and their organization's scan results"
+  on public.qr_scan_results
+  for select
+  using (
+    auth.uid() = user_id
+    or user_id is null
+    or (organization_id is not null and public.organization_role(organization_id) is not null)
+  );
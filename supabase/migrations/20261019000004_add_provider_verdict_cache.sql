@@ -0,0 +1,21 @@
+-- Provider verdicts reused between scans of the same page, so quota-limited
+-- APIs such as VirusTotal are not asked again within the provider's TTL.
+-- url_key is the canonical URL computed by security-scan (lowercased host,
+-- sorted query, tracking parameters removed). Written and read only by the
+-- edge function through the service role; RLS without policies keeps
+-- browsers out.
+create table public.provider_verdict_cache (
+  url_key text not null,
+  provider_id text not null,
+  checks jsonb not null,
+  duration_ms integer not null default 0,
+  cached_at timestamp with time zone not null default now(),
+  expires_at timestamp with time zone not null,
+  primary key (url_key, provider_id)
+);
+
+alter table public.provider_verdict_cache enable row level security;
+
+revoke all on public.provider_verdict_cache from anon, authenticated;
+
+create index idx_provider_verdict_cache_expires_at on public.provider_verdict_cache(expires_at);
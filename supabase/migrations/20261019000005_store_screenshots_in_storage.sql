@@ -0,0 +1,69 @@
+-- Sandbox screenshots are uploaded to a private bucket by security-scan
+-- instead of being inlined into security_checks as base64. Checks store the
+-- object's path as `screenshotPath`; browsers only ever get short-lived
+-- signed URLs.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('scan-screenshots', 'scan-screenshots', false, 5242880, array['image/png'])
+on conflict (id) do nothing;
+
+-- Lets the policy and the cleanup below find the scans that reference a
+-- screenshot
+create index idx_qr_scan_results_security_checks
+  on public.qr_scan_results using gin (security_checks jsonb_path_ops);
+
+-- Whoever can see a scan can see its screenshots: the subquery runs under
+-- the caller's own qr_scan_results policies, organization access included
+create policy "Users can view screenshots of scans they can see" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and exists (
+      select 1 from public.qr_scan_results scans
+      where scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+    )
+  );
+
+-- Screenshots no scan row references: those of deleted scans and of scans
+-- that were never saved. The grace period covers scans still in progress.
+-- Storage objects can only be deleted through the Storage API, so the
+-- cleanup-screenshots function removes what this returns.
+create or replace function public.unreferenced_screenshots(grace interval default interval '1 hour', max_count integer default 500)
+returns setof text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select objects.name
+  from storage.objects objects
+  where objects.bucket_id = 'scan-screenshots'
+    and objects.created_at < now() - grace
+    and not exists (
+      select 1 from public.qr_scan_results scans
+      where scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+    )
+  order by objects.created_at
+  limit max_count;
+$$;
+
+revoke execute on function public.unreferenced_screenshots(interval, integer) from public, anon, authenticated;
+grant execute on function public.unreferenced_screenshots(interval, integer) to service_role;
+
+-- Users can delete their own scans from History. The client removes the
+-- screenshots first, while the row still grants access to them; anything it
+-- misses is swept by cleanup-screenshots.
+create policy "Users can delete their own scan results"
+  on public.qr_scan_results
+  for delete
+  using (auth.uid() = user_id);
+
+create policy "Users can delete screenshots of their own scans" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and exists (
+      select 1 from public.qr_scan_results scans
+      where scans.user_id = auth.uid()
+        and scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+    )
+  );
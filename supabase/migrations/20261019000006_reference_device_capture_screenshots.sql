@@ -0,0 +1,58 @@
+-- Sandbox checks now carry one capture per device, each with its own
+-- screenshot, under `captures`. The desktop path stays on the check itself;
+-- the mobile ones are only found nested, so the screenshot policies and the
+-- cleanup look in both places.
+drop policy "Users can view screenshots of scans they can see" on storage.objects;
+
+create policy "Users can view screenshots of scans they can see" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and exists (
+      select 1 from public.qr_scan_results scans
+      where scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+        or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+          'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+        ))
+    )
+  );
+
+drop policy "Users can delete screenshots of their own scans" on storage.objects;
+
+create policy "Users can delete screenshots of their own scans" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and exists (
+      select 1 from public.qr_scan_results scans
+      where scans.user_id = auth.uid()
+        and (
+          scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+            'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          ))
+        )
+    )
+  );
+
+create or replace function public.unreferenced_screenshots(grace interval default interval '1 hour', max_count integer default 500)
+returns setof text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select objects.name
+  from storage.objects objects
+  where objects.bucket_id = 'scan-screenshots'
+    and objects.created_at < now() - grace
+    and not exists (
+      select 1 from public.qr_scan_results scans
+      where scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+        or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+          'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+        ))
+    )
+  order by objects.created_at
+  limit max_count;
+$$;
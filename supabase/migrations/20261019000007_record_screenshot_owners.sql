@@ -0,0 +1,137 @@
+-- Screenshot access used to follow any scan row referencing the file. Scan
+-- rows are written by the browser, so anyone who had seen a path could save
+-- a row of their own pointing at it and gain read and delete access. The
+-- owner is now recorded server-side when security-scan uploads the file, and
+-- only scans by that owner grant access.
+create table public.scan_screenshots (
+  path text primary key,
+  -- Null for anonymous scans
+  user_id uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+-- Written and read only by the service role and the functions below
+alter table public.scan_screenshots enable row level security;
+revoke all on public.scan_screenshots from anon, authenticated;
+
+create index idx_scan_screenshots_user_id on public.scan_screenshots (user_id);
+
+-- Existing files belong to the user of the earliest scan that references
+-- them; files no scan references get no record and are left to cleanup.
+insert into public.scan_screenshots (path, user_id, created_at)
+select objects.name, first_scan.user_id, objects.created_at
+from storage.objects objects
+cross join lateral (
+  select scans.user_id
+  from public.qr_scan_results scans
+  where scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+    or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+      'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+    ))
+  order by scans.created_at
+  limit 1
+) first_scan
+where objects.bucket_id = 'scan-screenshots'
+on conflict (path) do nothing;
+
+-- Whether `scan_user` (null for anonymous) is who security-scan stored the
+-- screenshot for
+create or replace function public.is_screenshot_owner(scan_user uuid, screenshot_path text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select exists (
+    select 1 from public.scan_screenshots shots
+    where shots.path = screenshot_path
+      and shots.user_id is not distinct from scan_user
+  );
+$$;
+
+revoke execute on function public.is_screenshot_owner(uuid, text) from public, anon;
+grant execute on function public.is_screenshot_owner(uuid, text) to authenticated;
+
+-- Whoever can see one of the owner's scans that references a screenshot can
+-- see the screenshot: the subquery runs under the caller's own
+-- qr_scan_results policies, organization access included
+drop policy "Users can view screenshots of scans they can see" on storage.objects;
+
+create policy "Users can view screenshots of scans they can see" on storage.objects
+  for select to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and exists (
+      select 1 from public.qr_scan_results scans
+      where (
+          scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+            'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          ))
+        )
+        and public.is_screenshot_owner(scans.user_id, objects.name)
+    )
+  );
+
+drop policy "Users can delete screenshots of their own scans" on storage.objects;
+
+create policy "Users can delete screenshots of their own scans" on storage.objects
+  for delete to authenticated
+  using (
+    bucket_id = 'scan-screenshots'
+    and public.is_screenshot_owner(auth.uid(), objects.name)
+  );
+
+-- Only scans by the owner keep a screenshot alive, so a row pointing at
+-- someone else's file cannot keep it from being cleaned up either
+create or replace function public.unreferenced_screenshots(grace interval default interval '1 hour', max_count integer default 500)
+returns setof text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select objects.name
+  from storage.objects objects
+  where objects.bucket_id = 'scan-screenshots'
+    and objects.created_at < now() - grace
+    and not exists (
+      select 1
+      from public.scan_screenshots shots
+      join public.qr_scan_results scans on scans.user_id is not distinct from shots.user_id
+      where shots.path = objects.name
+        and (
+          scans.security_checks @> jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          or scans.security_checks @> jsonb_build_array(jsonb_build_object(
+            'captures', jsonb_build_array(jsonb_build_object('screenshotPath', objects.name))
+          ))
+        )
+    )
+  order by objects.created_at
+  limit max_count;
+$$;
+
+-- Ownership records of files that no longer exist, whether cleanup or the
+-- owner removed them
+create or replace function public.purge_screenshot_records(grace interval default interval '1 hour')
+returns integer
+language sql
+security definer
+set search_path = ''
+as $$
+  with purged as (
+    delete from public.scan_screenshots shots
+    where shots.created_at < now() - grace
+      and not exists (
+        select 1 from storage.objects objects
+        where objects.bucket_id = 'scan-screenshots'
+          and objects.name = shots.path
+      )
+    returning 1
+  )
+  select count(*)::integer from purged;
+$$;
+
+revoke execute on function public.purge_screenshot_records(interval) from public, anon, authenticated;
+grant execute on function public.purge_screenshot_records(interval) to service_role;
@@ -0,0 +1,166 @@
+-- Adding a member used to put any account straight into the organization,
+-- looked up by email. From then on that person's scans were filed under, and
+-- run with the keys of, an organization they never agreed to join, and the
+-- error for an unknown email told anyone whether it had an account. Admins
+-- now invite an email address; the person only becomes a member, and their
+-- scans only go to the organization, once they accept.
+create table public.organization_invitations (
+  id uuid default gen_random_uuid() primary key,
+  organization_id uuid references public.organizations(id) on delete cascade not null,
+  -- Stored lower-cased and trimmed
+  email text not null,
+  role text not null check (role in ('owner', 'admin', 'analyst', 'viewer')),
+  invited_by uuid references auth.users(id) on delete set null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  unique (organization_id, email)
+);
+
+create index idx_organization_invitations_email on public.organization_invitations(email);
+
+alter table public.organization_invitations enable row level security;
+
+create policy "Admins can view their organization's invitations" on public.organization_invitations
+  for select using (public.organization_role(organization_id) in ('owner', 'admin'));
+
+revoke insert, update, delete on public.organization_invitations from anon, authenticated;
+
+drop function public.add_organization_member(uuid, text, text);
+
+-- Everyone but an organization's creator was added without being asked.
+-- They are invited instead, and the scans already filed under the
+-- organization on their behalf go back to being their own.
+with unconfirmed as (
+  delete from public.organization_members members
+  using public.organizations organizations
+  where organizations.id = members.organization_id
+    and members.user_id is distinct from organizations.created_by
+  returning members.organization_id, members.user_id, members.role
+),
+invited as (
+  insert into public.organization_invitations (organization_id, email, role)
+  select unconfirmed.organization_id, lower(users.email), unconfirmed.role
+  from unconfirmed
+  join auth.users users on users.id = unconfirmed.user_id
+  where users.email is not null
+  on conflict (organization_id, email) do nothing
+)
+update public.qr_scan_results scans
+  set organization_id = null
+  from unconfirmed
+  where scans.user_id = unconfirmed.user_id
+    and scans.organization_id = unconfirmed.organization_id;
+
+-- The caller's confirmed sign-in email, lower-cased, or null. Invitations are
+-- matched against it, so an unconfirmed sign-up cannot claim someone else's.
+create or replace function public.confirmed_email()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select lower(email) from auth.users
+    where id = auth.uid() and email_confirmed_at is not null;
+$$;
+
+-- Invites an email address, whether or not it has an account yet. Inviting
+-- the same address again updates the role. The outcome is the same either
+-- way, so the caller learns nothing about other people's accounts.
+create or replace function public.invite_organization_member(org uuid, member_email text, member_role text)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller_role text := public.organization_role(org);
+  invitee text := lower(trim(member_email));
+begin
+  if caller_role is null or caller_role not in ('owner', 'admin') then
+    raise exception 'Only owners and admins can invite members';
+  end if;
+  if member_role not in ('owner', 'admin', 'analyst', 'viewer') then
+    raise exception 'Unknown role %', member_role;
+  end if;
+  if member_role = 'owner' and caller_role <> 'owner' then
+    raise exception 'Only owners can invite owners';
+  end if;
+  if invitee !~ '^[^@\s]+@[^@\s]+$' then
+    raise exception 'Enter a valid email address';
+  end if;
+
+  insert into public.organization_invitations (organization_id, email, role, invited_by)
+    values (org, invitee, member_role, auth.uid())
+    on conflict (organization_id, email) do update
+      set role = excluded.role,
+          invited_by = excluded.invited_by,
+          created_at = excluded.created_at;
+end;
+$$;
+
+-- Invitations waiting for the caller
+create or replace function public.list_my_organization_invitations()
+returns table (id uuid, organization_id uuid, organization_name text, role text, invited_at timestamp with time zone)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select invitations.id, invitations.organization_id, organizations.name, invitations.role, invitations.created_at
+  from public.organization_invitations invitations
+  join public.organizations organizations on organizations.id = invitations.organization_id
+  where invitations.email = public.confirmed_email()
+  order by invitations.created_at;
+$$;
+
+create or replace function public.accept_organization_invitation(invitation uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  caller uuid := auth.uid();
+  invited public.organization_invitations%rowtype;
+begin
+  select * into invited from public.organization_invitations
+    where id = invitation and email = public.confirmed_email();
+  if invited.id is null then
+    raise exception 'Invitation not found';
+  end if;
+  if exists (select 1 from public.organization_members where user_id = caller) then
+    raise exception 'Leave your current organization before joining another';
+  end if;
+
+  insert into public.organization_members (organization_id, user_id, role)
+    values (invited.organization_id, caller, invited.role);
+  delete from public.organization_invitations where id = invited.id;
+end;
+$$;
+
+-- The invitee declines, or an owner or admin withdraws the invitation
+create or replace function public.delete_organization_invitation(invitation uuid)
+returns void
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  delete from public.organization_invitations
+    where id = invitation
+      and (
+        email = public.confirmed_email()
+        or public.organization_role(organization_id) in ('owner', 'admin')
+      );
+end;
+$$;
+
+revoke execute on function public.confirmed_email() from public, anon, authenticated;
+revoke execute on function public.invite_organization_member(uuid, text, text) from public, anon;
+revoke execute on function public.list_my_organization_invitations() from public, anon;
+revoke execute on function public.accept_organization_invitation(uuid) from public, anon;
+revoke execute on function public.delete_organization_invitation(uuid) from public, anon;
+grant execute on function public.invite_organization_member(uuid, text, text) to authenticated;
+grant execute on function public.list_my_organization_invitations() to authenticated;
+grant execute on function public.accept_organization_invitation(uuid) to authenticated;
+grant execute on function public.delete_organization_invitation(uuid) to authenticated;
@@ -0,0 +1,11 @@
+-- Scans used to store the QR contents verbatim, Wi-Fi passwords and
+-- authenticator secrets included, where organization members can read them.
+-- New scans are redacted before they are saved; this does the same for the
+-- ones already stored, matching redactQrData in _shared/payload.ts.
+update public.qr_scan_results
+  set qr_data = regexp_replace(qr_data, '(^\s*WIFI:|(?<!\\);)P:(\\.|[^\\;])*', '\1P:REDACTED', 'gi')
+  where qr_data ~* '^\s*WIFI:';
+
+update public.qr_scan_results
+  set qr_data = regexp_replace(qr_data, '([?&](secret|data)=)[^&#]*', '\1REDACTED', 'gi')
+  where qr_data ~* '^\s*otpauth(-migration)?:';
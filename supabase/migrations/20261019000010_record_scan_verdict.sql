@@ -0,0 +1,13 @@
+-- A scan where no check answered (every provider timed out or failed) has
+-- no verdict. overall_risk still holds the level its untouched score maps
+-- to, so this flag says whether to believe it.
+alter table public.qr_scan_results
+  add column verdict boolean not null default true;
+
+update public.qr_scan_results
+  set verdict = false
+  where jsonb_typeof(security_checks) = 'array'
+    and not exists (
+      select 1 from jsonb_array_elements(security_checks) as checks(check_result)
+      where checks.check_result ->> 'status' not in ('pending', 'timeout', 'error', 'skipped')
+    );